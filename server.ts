@@ -0,0 +1,1298 @@
+import express from "express";
+import { createServer } from "http";
+import { Server, type Socket } from "socket.io";
+import path from "path";
+import { fileURLToPath } from "url";
+import dotenv from "dotenv";
+import { parseScoreRows, type ParsedCandidate } from "./src/lib/scoreParser.ts";
+import { diffCandidates } from "./src/lib/scoreDiff.ts";
+import {
+  candidateNumber,
+  computeOverall,
+  getOverallName,
+} from "./src/lib/overall.ts";
+import { buildPlacements, divisionsOf, unresolvedTies } from "./src/lib/placements.ts";
+import { compareRank, rankCandidates } from "./src/lib/ranking.ts";
+import { isRevealOf } from "./src/lib/reveal.ts";
+import type { ReportCategory, TabulationReport } from "./src/lib/report.ts";
+import { createGoogleSheetsSource } from "./src/sources/googleSheets.ts";
+import { createLocalFileSource } from "./src/sources/localFile.ts";
+import {
+  parseClientPayload,
+  SCREEN_NAME_PATTERN,
+  type AnnouncementOrder,
+  type ClientEventName,
+  type ClientPayload,
+  type ClientToServerEvents,
+  type CuedPreview,
+  type ServerToClientEvents,
+  type ShowState,
+} from "./src/protocol.ts";
+import type {
+  ControllerLoginResult,
+  ControlPosition,
+  DisplayMode,
+  OverlayVisibility,
+  ProgramCue,
+  RevealState,
+  ScoreSource,
+  ScreenContent,
+  ShowConfig,
+  SlideshowStatus,
+} from "./src/types.ts";
+import { createDiskFileSource } from "./server/diskSource.ts";
+import { loadShowConfig } from "./server/showConfig.ts";
+import { loadRoster } from "./server/roster.ts";
+import {
+  createJudgeScoreStore,
+  createJudgeTabletSource,
+  judgePin,
+  judgesWithoutPin,
+  validateJudgeSubmission,
+  type JudgeStoreSnapshot,
+} from "./server/judgeTablets.ts";
+import { createShowStateStore } from "./server/showState.ts";
+import {
+  createControllerAuth,
+  createOriginCheck,
+  createPinCheck,
+} from "./server/controllerAuth.ts";
+import { createActionHistory } from "./server/actionHistory.ts";
+import { createThemeStore, THEME_ASSETS_PATH } from "./server/theme.ts";
+import { createPhotoStore, PHOTOS_PATH } from "./server/photos.ts";
+import { createSlideshow } from "./server/slideshow.ts";
+import { createIdlePlaylist, IDLE_ASSETS_PATH } from "./server/idlePlaylist.ts";
+import { createControlApi, type ApiControlEvent } from "./server/controlApi.ts";
+
+dotenv.config({ quiet: true });
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Per-connection state kept by Socket.IO
+interface SocketData {
+  isController?: boolean;
+  judgeId?: number; // Judge this tablet logged in as
+  screen?: string; // Name of the named screen this display joined
+}
+
+type ShowSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>;
+
+// Extra page origins allowed to connect, e.g. a controller served from
+// another machine: ALLOWED_ORIGINS=http://10.0.0.5:5173,http://10.0.0.6:5173
+const originAllowed = createOriginCheck(
+  (process.env.ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+);
+
+const app = express();
+const httpServer = createServer(app);
+const io = new Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>(httpServer, {
+  // Other origins are refused before the handshake; the allowed ones get
+  // their origin echoed back
+  allowRequest: (req, callback) => {
+    const allowed = originAllowed(req.headers.origin, req.headers.host);
+    if (!allowed) console.warn(`Refused a connection from ${req.headers.origin}`);
+    callback(null, allowed);
+  },
+  cors: {
+    origin: true,
+    methods: ["GET", "POST"],
+  },
+  // Allow uploading score workbooks from the controller
+  maxHttpBufferSize: 10 * 1024 * 1024,
+});
+
+// Serve static files from dist if production
+// For dev, we just use the socket server.
+
+// Score source configuration (server-only, never shipped to the browser).
+// The VITE_ names are still read so existing .env files keep working.
+const SHEET_ID =
+  process.env.GOOGLE_SHEET_ID || process.env.VITE_GOOGLE_SHEET_ID;
+const API_KEY = process.env.GOOGLE_API_KEY || process.env.VITE_GOOGLE_API_KEY;
+const SCORES_FILE = process.env.SCORES_FILE; // CSV/XLSX file or directory
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS) || 5000;
+const SHOW_CONFIG = path.resolve(
+  process.env.SHOW_CONFIG || path.join(__dirname, "show.config.json"),
+);
+const loadConfig = () => loadShowConfig(SHOW_CONFIG);
+// Where the running show is saved so a restart can pick it up again
+const SHOW_STATE_FILE = path.resolve(
+  process.env.SHOW_STATE_FILE || path.join(__dirname, "show-state.json"),
+);
+const showState = createShowStateStore<ShowSnapshot>(
+  SHOW_STATE_FILE,
+  path.join(path.dirname(SHOW_STATE_FILE), "show-uploads"),
+);
+
+// Event theme (colors, font, title, logo), kept across shows
+const THEME_FILE = path.resolve(
+  process.env.THEME_FILE || path.join(__dirname, "theme.json"),
+);
+const THEME_ASSETS_DIR = path.join(path.dirname(THEME_FILE), "theme-assets");
+const themeStore = createThemeStore(THEME_FILE, THEME_ASSETS_DIR);
+
+// Uploaded logos and slides are shown as images only; an SVG opened directly
+// must not run scripts
+const serveUploadedImages = (dir: string) =>
+  express.static(dir, {
+    setHeaders: (res) => {
+      res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'");
+      res.setHeader("Access-Control-Allow-Origin", "*");
+    },
+  });
+app.use(THEME_ASSETS_PATH, serveUploadedImages(THEME_ASSETS_DIR));
+
+// Idle screen playlist (sponsor slides, announcements, countdowns), kept
+// across shows; the server rotates it for every idle screen
+const IDLE_PLAYLIST_FILE = path.resolve(
+  process.env.IDLE_PLAYLIST_FILE || path.join(__dirname, "idle-playlist.json"),
+);
+const IDLE_ASSETS_DIR = path.join(path.dirname(IDLE_PLAYLIST_FILE), "idle-assets");
+const idlePlaylist = createIdlePlaylist(IDLE_PLAYLIST_FILE, IDLE_ASSETS_DIR, (playlist) =>
+  io.emit("IDLE_PLAYLIST", playlist),
+);
+app.use(IDLE_ASSETS_PATH, serveUploadedImages(IDLE_ASSETS_DIR));
+
+// Candidate photos uploaded from the controller, kept across shows
+const PHOTOS_DIR = path.resolve(
+  process.env.PHOTOS_DIR || path.join(__dirname, "photos"),
+);
+const photoStore = createPhotoStore(PHOTOS_DIR);
+
+// Photo URLs carry a hash of the content (?v=), so they can be cached for good
+app.use(
+  PHOTOS_PATH,
+  express.static(PHOTOS_DIR, { immutable: true, maxAge: "1y", index: false }),
+);
+
+// PIN that unlocks the control panel; without one anyone can control the show.
+// Judge tablets log in with their own PINs from the show config, and wrong
+// guesses at either count toward the same lockout.
+const checkPin = createPinCheck();
+const controllerAuth = createControllerAuth(process.env.CONTROLLER_PIN?.trim(), checkPin);
+if (!controllerAuth.required) {
+  console.warn("CONTROLLER_PIN is not set: any client can control the show.");
+}
+const judgesMissingPins = judgesWithoutPin((await loadConfig()).judging);
+if (judgesMissingPins.length > 0) {
+  console.error(
+    `Judge tablets can't log in without a PIN, and judging.pins has none for judge ${judgesMissingPins.join(", ")}.`,
+  );
+}
+
+// Scores entered on judge tablets, and the score source that reads them
+const judgeScores = createJudgeScoreStore();
+const tabletSource = createJudgeTabletSource(judgeScores, loadConfig);
+
+// Default source: judge tablets if SCORE_SOURCE=tablets, else a local
+// file/directory if configured, otherwise Google Sheets
+function createDefaultSource(): ScoreSource | null {
+  if (process.env.SCORE_SOURCE === "tablets") return tabletSource;
+  if (SCORES_FILE) return createDiskFileSource(path.resolve(SCORES_FILE));
+  if (SHEET_ID && API_KEY) return createGoogleSheetsSource(SHEET_ID, API_KEY);
+  return null;
+}
+
+let currentIndex = 0; // Server-side state of truth
+let cachedCandidates: ParsedCandidate[] = []; // Cache candidates so new connections get data
+let isIdle = false; // Idle state
+let currentCategory = ""; // Current category/sheet name (empty = use first available)
+let showJudgeScores = true; // Whether to show individual judges' scores on viewers
+let displayMode: DisplayMode = "spotlight"; // What /view shows
+let announcement: AnnouncementOrder | null = null; // Running winner announcement
+let cue: CuedPreview | null = null; // Waiting in the controllers' preview for TAKE
+let fades = 0; // TAKEs that faded, so screens know when to fade in
+const NO_OVERLAYS: OverlayVisibility = {
+  "lower-third": false,
+  "score-bug": false,
+  leaderboard: false,
+};
+let overlays = NO_OVERLAYS; // Broadcast overlays showing on /overlay/:name
+let reveal: RevealState | null = null; // Step-by-step reveal, while the operator runs one
+let scoreSource = createDefaultSource(); // Where scores are polled from
+let uploadedFileNames: string[] | null = null; // Names of the uploaded files, when scoreSource uses them
+let categories: string[] = []; // Categories available in the score source
+let scoreError: string | null = null; // Last error from the score source, if any
+let overallCategory: string | null = null; // Name of the computed overall category, if configured
+// What each named screen (/view/:screen) shows, by screen name; screens not
+// listed here follow the main screen ("main")
+let screenRoutes: Record<string, ScreenContent> = {};
+
+const getState = (): ShowState => ({
+  currentIndex,
+  candidates: cachedCandidates,
+  isIdle,
+  category: currentCategory,
+  showJudgeScores,
+  displayMode,
+  categories,
+  sourceLabel: scoreSource?.label ?? null,
+  scoreError,
+  overallCategory,
+  judgeTablets: scoreSource === tabletSource,
+  // Candidates in the current category closed for tablet scoring
+  lockedCandidates: judgeScores.lockedIn(
+    currentCategory,
+    cachedCandidates.map((c) => c.name),
+  ),
+  // Viewers only ever receive the places that have been revealed
+  announcement: announcement && {
+    category: announcement.category,
+    division: announcement.division,
+    total: announcement.placements.length,
+    maxNumber: announcement.maxNumber,
+    revealed: announcement.placements.slice(0, announcement.revealed),
+  },
+  overlays,
+  reveal,
+  slideshow: slideshow.get(),
+  fades,
+});
+
+// Everything needed to resume the show after a restart
+interface ShowSnapshot {
+  currentIndex: number;
+  cachedCandidates: ParsedCandidate[];
+  isIdle: boolean;
+  currentCategory: string;
+  showJudgeScores: boolean;
+  displayMode: DisplayMode;
+  announcement: AnnouncementOrder | null;
+  source:
+    | { type: "default" }
+    | { type: "tablets" }
+    | { type: "files"; names: string[] };
+  judgeScores: JudgeStoreSnapshot;
+  screenRoutes: Record<string, ScreenContent>;
+  slideshow: SlideshowStatus | null;
+  overlays: OverlayVisibility;
+  reveal: RevealState | null;
+}
+
+const getSnapshot = (): ShowSnapshot => ({
+  currentIndex,
+  cachedCandidates,
+  isIdle,
+  currentCategory,
+  showJudgeScores,
+  displayMode,
+  announcement,
+  source:
+    scoreSource === tabletSource
+      ? { type: "tablets" }
+      : uploadedFileNames
+        ? { type: "files", names: uploadedFileNames }
+        : { type: "default" },
+  judgeScores: judgeScores.toJSON(),
+  screenRoutes,
+  slideshow: slideshow.get(),
+  overlays,
+  reveal,
+});
+
+// Auto-advance through the candidates on the main screen
+const slideshow = createSlideshow({
+  advance(loop) {
+    if (currentIndex + 1 < cachedCandidates.length) currentIndex++;
+    else if (loop && cachedCandidates.length > 0) currentIndex = 0;
+    else return false;
+    showJudgeScores = false;
+    broadcastState();
+    return true;
+  },
+  revealJudgeScores() {
+    showJudgeScores = true;
+    broadcastState();
+  },
+  changed: () => broadcastState(),
+});
+
+// A running reveal follows the candidate on screen: a new candidate starts
+// from the name alone, and a judge joining adds a step
+function syncReveal() {
+  const candidate = cachedCandidates[currentIndex];
+  if (!reveal || !candidate) return;
+  const steps = candidate.scores.length + 1;
+  if (!isRevealOf(candidate, reveal)) {
+    reveal = { candidate: candidate.name, category: candidate.category, step: 0, steps };
+  } else if (steps !== reveal.steps) {
+    reveal = { ...reveal, step: Math.min(reveal.step, steps), steps };
+  }
+}
+
+// Every state change is broadcast, so this is also where it gets saved
+const broadcastState = () => {
+  syncReveal();
+  io.emit("STATE_UPDATE", getState());
+  showState.save(getSnapshot());
+};
+
+// Put back the show saved by a previous run of the server, if any
+async function restoreShow() {
+  const saved = await showState.load();
+  if (!saved) return;
+
+  currentIndex = saved.currentIndex ?? 0;
+  cachedCandidates = saved.cachedCandidates ?? [];
+  isIdle = !!saved.isIdle;
+  currentCategory = saved.currentCategory ?? "";
+  showJudgeScores = saved.showJudgeScores ?? true;
+  displayMode = saved.displayMode ?? "spotlight";
+  announcement = saved.announcement ?? null;
+  judgeScores.restore(saved.judgeScores);
+  screenRoutes = saved.screenRoutes ?? {};
+  slideshow.restore(saved.slideshow ?? null);
+  overlays = { ...NO_OVERLAYS, ...saved.overlays };
+  reveal = saved.reveal ?? null;
+
+  if (saved.source?.type === "tablets") {
+    scoreSource = tabletSource;
+  } else if (saved.source?.type === "files") {
+    try {
+      scoreSource = createLocalFileSource(
+        await showState.loadUploads(saved.source.names),
+      );
+      uploadedFileNames = saved.source.names;
+    } catch (err) {
+      console.error(`Could not restore uploaded score files: ${(err as Error).message}`);
+    }
+  }
+  console.log(`Restored show state from ${SHOW_STATE_FILE}`);
+}
+
+// Forget the saved show and start from a clean slate. Screen routing is
+// venue setup rather than part of the show, so it is kept.
+async function startNewShow() {
+  await showState.clear();
+  currentIndex = 0;
+  cachedCandidates = [];
+  isIdle = false;
+  currentCategory = "";
+  showJudgeScores = true;
+  displayMode = "spotlight";
+  announcement = null;
+  cue = null;
+  slideshow.stop();
+  overlays = NO_OVERLAYS;
+  reveal = null;
+  scoreSource = createDefaultSource();
+  uploadedFileNames = null;
+  categories = [];
+  scoreError = null;
+  judgeScores.clear();
+}
+
+// Send one judge tablet its own entries for the current category
+const sendJudgeScores = (judgeId: number) =>
+  io.to(`judge:${judgeId}`).emit("JUDGE_SCORES", {
+    category: currentCategory,
+    scores: judgeScores.forJudge(
+      currentCategory,
+      judgeId,
+      cachedCandidates.map((c) => c.name),
+    ),
+  });
+
+// The full (still hidden) announcement order goes to controllers only
+const CONTROLLERS_ROOM = "controllers";
+// Send to every controller, or to the one `socket` that just joined
+const sendAnnouncementPreview = (socket?: ShowSocket) =>
+  (socket ?? io.to(CONTROLLERS_ROOM)).emit("ANNOUNCEMENT_PREVIEW", announcement);
+
+// What is on air, in the shape of a cue
+const programCue = (): ProgramCue => ({
+  category: currentCategory,
+  index: currentIndex,
+  displayMode,
+  isIdle,
+});
+
+// The cued preview goes to controllers only
+const sendPreview = (socket?: ShowSocket) =>
+  (socket ?? io.to(CONTROLLERS_ROOM)).emit("PREVIEW", cue);
+
+// Named screens: each display on /view/:screen joins its own room and only
+// receives its own routing
+const screenRoom = (name: string) => `screen:${name}`;
+const screenContent = (name: string) => screenRoutes[name] || "main";
+
+// Configured screens, routed screens and connected screens, for the routing matrix
+async function sendScreens(socket?: ShowSocket) {
+  const config = await loadConfig();
+  const names = new Set([
+    ...(Array.isArray(config.screens) ? config.screens : []),
+    ...Object.keys(screenRoutes),
+  ]);
+  for (const room of io.sockets.adapter.rooms.keys()) {
+    if (room.startsWith("screen:")) names.add(room.slice("screen:".length));
+  }
+  (socket ?? io.to(CONTROLLERS_ROOM)).emit(
+    "SCREENS",
+    [...names].filter((name) => SCREEN_NAME_PATTERN.test(name)).map((name) => ({
+      name,
+      content: screenContent(name),
+      viewers: io.sockets.adapter.rooms.get(screenRoom(name))?.size || 0,
+    })),
+  );
+}
+
+// Log of accepted control events, shown (and undoable) in the control panel
+const history = createActionHistory();
+const sendHistory = (socket?: ShowSocket) =>
+  (socket ?? io.to(CONTROLLERS_ROOM)).emit("ACTION_HISTORY", history.list());
+
+// The part of the show that Undo puts back
+const controlPosition = (): ControlPosition => ({
+  currentIndex,
+  category: currentCategory,
+  isIdle,
+  showJudgeScores,
+});
+
+function restorePosition(position: ControlPosition) {
+  const categoryChanged = position.category !== currentCategory;
+  currentIndex = position.currentIndex;
+  currentCategory = position.category;
+  isIdle = position.isIdle;
+  showJudgeScores = position.showJudgeScores;
+  if (categoryChanged) {
+    // Same as SET_CATEGORY: the forced poll broadcasts the new category
+    cachedCandidates = [];
+    schedulePoll({ force: true });
+  } else {
+    broadcastState();
+  }
+}
+
+// Log a control event the server accepted, with the position it moved from
+function recordControl(
+  event: ClientEventName,
+  by: string,
+  payload: unknown,
+  before: ControlPosition,
+) {
+  history.record({ event, by, payload, before, after: controlPosition() });
+  sendHistory();
+}
+
+// Control events that only change the show, so the socket events and the
+// HTTP control API run the same code. A handler returns a message when it
+// refuses the event.
+const showControls: {
+  [E in ApiControlEvent]: (payload: ClientPayload<E>) => string | void;
+} = {
+  // { index, showJudgeScores? }: judge scores are usually hidden in the same step
+  SET_INDEX(payload) {
+    // Index 0 stays valid while the category's candidates are still loading
+    if (payload.index > 0 && payload.index >= cachedCandidates.length) {
+      return `Index ${payload.index} is out of range (${cachedCandidates.length} candidates).`;
+    }
+    currentIndex = payload.index;
+    if (payload.showJudgeScores !== undefined) {
+      showJudgeScores = payload.showJudgeScores;
+    }
+    broadcastState();
+  },
+
+  SET_IDLE(idle: boolean) {
+    isIdle = idle;
+    broadcastState();
+  },
+
+  SET_CATEGORY(payload) {
+    if (!categories.includes(payload.category)) {
+      return `Unknown category: ${payload.category}`;
+    }
+    currentCategory = payload.category;
+    // Reset index to 0 when changing category
+    currentIndex = 0;
+    cachedCandidates = [];
+    schedulePoll({ force: true });
+  },
+
+  SET_SHOW_JUDGE_SCORES(show: boolean) {
+    showJudgeScores = show;
+    broadcastState();
+  },
+
+  // Reveal the candidate on screen step by step, starting from the name alone
+  START_REVEAL() {
+    const candidate = cachedCandidates[currentIndex];
+    if (!candidate) return;
+    reveal = {
+      candidate: candidate.name,
+      category: candidate.category,
+      step: 0,
+      steps: candidate.scores.length + 1,
+    };
+    broadcastState();
+  },
+
+  // Show the next judge card (or finally the total), or take the last one back
+  REVEAL_STEP(step: 1 | -1) {
+    if (!reveal) return;
+    reveal = {
+      ...reveal,
+      step: Math.min(reveal.steps, Math.max(0, reveal.step + step)),
+    };
+    broadcastState();
+  },
+
+  // Back to the judge score toggle; a finished reveal leaves the cards up
+  END_REVEAL() {
+    if (!reveal) return;
+    showJudgeScores = reveal.step >= reveal.steps;
+    reveal = null;
+    broadcastState();
+  },
+};
+
+const sameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+// Sheet names plus the computed overall category, if one is configured. The
+// roster sheet holds no scores, so it isn't a category.
+function withOverallCategory(sheetNames: string[], config: ShowConfig) {
+  const names = sheetNames.filter((name) => name !== config.roster?.sheet);
+  const overall = config.overall;
+  if (!overall || !Object.keys(overall.weights || {}).some((n) => names.includes(n))) {
+    return names;
+  }
+  return [...names, getOverallName(overall)];
+}
+
+// Fetch, parse and rank one category, with the roster and stored photos
+// joined on; the overall category merges its weighted sheets
+async function fetchCandidates(
+  source: ScoreSource,
+  category: string,
+  config: ShowConfig,
+): Promise<ParsedCandidate[]> {
+  const roster = await loadRoster(config, SHOW_CONFIG, source);
+  const overall = config.overall;
+  if (overall && category === getOverallName(overall)) {
+    const sheetNames = Object.keys(overall.weights).filter((name) =>
+      categories.includes(name),
+    );
+    const results = await Promise.all(
+      sheetNames.map(async (name) => ({
+        category: name,
+        candidates: parseScoreRows(
+          await source.fetchRows(name),
+          config.categories?.[name],
+          roster,
+        ),
+      })),
+    );
+    return rankCandidates(
+      photoStore.attach(computeOverall(results, overall), category),
+      config.categories?.[category],
+    );
+  }
+  const settings = config.categories?.[category];
+  return rankCandidates(
+    photoStore.attach(
+      parseScoreRows(await source.fetchRows(category), settings, roster),
+      category,
+    ),
+    settings,
+  );
+}
+
+// Rank every category the way the scoreboard does, for the tabulation report
+async function buildReport(): Promise<TabulationReport> {
+  const source = scoreSource;
+  if (!source) throw new Error("No score source is configured.");
+  const config = await loadConfig();
+  const reportCategories: ReportCategory[] = [];
+  for (const category of categories) {
+    const candidates = await fetchCandidates(source, category, config);
+    reportCategories.push({
+      category,
+      aggregation: config.categories?.[category]?.aggregation ?? "mean",
+      candidates: [...candidates].sort(compareRank),
+    });
+  }
+  return {
+    generatedAt: new Date().toISOString(),
+    sourceLabel: source.label,
+    overallCategory,
+    categories: reportCategories,
+  };
+}
+
+// Fetch and parse the active category, then tell clients what changed.
+// `force` broadcasts the full state even when nothing changed (e.g. after a
+// category switch or a manual refresh).
+async function pollScores({ force = false }: { force?: boolean } = {}) {
+  let shouldBroadcast = force;
+
+  if (!scoreSource) {
+    const message =
+      "No score source: set GOOGLE_SHEET_ID and GOOGLE_API_KEY or SCORES_FILE in .env, or load a local CSV/XLSX file.";
+    if (scoreError !== message) {
+      scoreError = message;
+      shouldBroadcast = true;
+    }
+    if (shouldBroadcast) broadcastState();
+    return;
+  }
+
+  const source = scoreSource;
+  try {
+    const config = await loadConfig();
+    const names = withOverallCategory(await source.listCategories(), config);
+    if (source !== scoreSource) return; // Source switched while fetching
+    if (!sameList(names, categories)) {
+      categories = names;
+      overallCategory = config.overall ? getOverallName(config.overall) : null;
+      shouldBroadcast = true;
+    }
+
+    // Default to the first category when none (or a stale one) is selected
+    if (!categories.includes(currentCategory)) {
+      currentCategory = categories[0] || "";
+      currentIndex = 0;
+      shouldBroadcast = true;
+    }
+
+    const category = currentCategory;
+    const candidates = category
+      ? await fetchCandidates(source, category, config)
+      : [];
+    if (source !== scoreSource || category !== currentCategory) return;
+
+    const changes = diffCandidates(cachedCandidates, candidates);
+    cachedCandidates = candidates;
+    const revealBefore = reveal;
+    syncReveal();
+    if (reveal !== revealBefore) shouldBroadcast = true;
+    if (scoreError) {
+      scoreError = null;
+      shouldBroadcast = true;
+    }
+
+    if (shouldBroadcast || changes === null) {
+      broadcastState();
+    } else if (changes.length > 0) {
+      io.emit("SCORES_DIFF", { category, changes });
+      showState.save(getSnapshot());
+    }
+  } catch (err) {
+    if (source !== scoreSource) return;
+    const message = `Score source error: ${err instanceof Error ? err.message : String(err)}`;
+    console.error(message);
+    if (scoreError !== message) {
+      scoreError = message;
+      shouldBroadcast = true;
+    }
+    if (shouldBroadcast) broadcastState();
+  }
+}
+
+// Polls run one at a time; a scheduled poll waits for the running one
+let pollChain: Promise<void> = Promise.resolve();
+let pollQueued = false;
+function schedulePoll(options?: { force?: boolean }) {
+  pollQueued = true;
+  pollChain = pollChain
+    .then(() => {
+      pollQueued = false;
+      return pollScores(options);
+    })
+    .catch((err) => console.error("Poll failed:", err));
+  return pollChain;
+}
+
+await restoreShow();
+await themeStore.load();
+await photoStore.load();
+await idlePlaylist.load();
+
+setInterval(() => {
+  // Skip the tick if a poll is already waiting to run
+  if (!pollQueued) schedulePoll();
+}, POLL_INTERVAL_MS);
+schedulePoll({ force: true });
+
+// HTTP control for hardware controllers and automation, behind the same PIN
+app.use(
+  "/api",
+  createControlApi({
+    auth: controllerAuth,
+    allowQueryPin: process.env.CONTROL_API_QUERY_PIN === "1",
+    getState,
+    control(event, payload, by) {
+      const before = controlPosition();
+      const error = showControls[event](payload);
+      if (error) return error;
+      recordControl(event, by, payload ?? null, before);
+    },
+  }),
+);
+
+// Reply sent through an event's ack callback, if the client passed one
+type Reply = (result: { ok: boolean; error?: string }) => void;
+type Handler<E extends ClientEventName> = (
+  payload: ClientPayload<E>,
+  reply: Reply,
+) => void | Promise<void>;
+
+io.on("connection", (socket) => {
+  console.log("Client connected:", socket.id);
+
+  // Send current state to new connector
+  socket.emit("STATE_UPDATE", getState());
+  socket.emit("THEME", themeStore.get());
+  socket.emit("IDLE_PLAYLIST", idlePlaylist.get());
+
+  // Tell the client (and its ack, if any) why an event was ignored
+  const reject = (event: ClientEventName, message: string, reply: Reply) => {
+    console.warn(`Rejected ${event} from ${socket.id}: ${message}`);
+    socket.emit("PROTOCOL_ERROR", { event, message });
+    reply({ ok: false, error: message });
+  };
+
+  // Every client event goes through its schema before the handler sees it
+  const listen = <E extends ClientEventName>(event: E, handler: Handler<E>) => {
+    const listener = async (...args: unknown[]) => {
+      // Events without a payload may still pass an ack as their only argument
+      const [payload, ack] =
+        args.length === 1 && typeof args[0] === "function" ? [undefined, args[0]] : args;
+      const reply: Reply = typeof ack === "function" ? (ack as Reply) : () => {};
+      const parsed = parseClientPayload(event, payload);
+      if (!parsed.ok) {
+        reject(event, parsed.error, reply);
+        return;
+      }
+      try {
+        await handler(parsed.data, reply);
+      } catch (err) {
+        console.error(`${event} failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+    // The listener takes raw, unchecked arguments, so register it untyped
+    (socket as unknown as Socket).on(event as string, listener);
+  };
+
+  // Viewers and judge tablets are read-only; controllers log in with the PIN,
+  // either in the handshake (stored from an earlier login) or via CONTROLLER_LOGIN
+  const authStatus = () => ({
+    controller: !!socket.data.isController,
+    pinRequired: controllerAuth.required,
+  });
+  const grantControl = () => {
+    socket.data.isController = true;
+    socket.join(CONTROLLERS_ROOM);
+    sendAnnouncementPreview(socket);
+    sendPreview(socket);
+    sendHistory(socket);
+    sendScreens(socket);
+  };
+  const handshakePin = socket.handshake.auth?.pin;
+  const handshake = handshakePin
+    ? controllerAuth.login(socket.handshake.address, handshakePin)
+    : null;
+  if (!controllerAuth.required || handshake?.ok) grantControl();
+  // A stored PIN that is wrong (e.g. changed since) is dropped by the client,
+  // so it only counts once toward the lockout
+  socket.emit("AUTH_STATUS", {
+    ...authStatus(),
+    ...(handshake?.wrongPin && { wrongPin: true }),
+  });
+
+  // Control events are only accepted from logged-in controllers. Each one is
+  // logged with the show position before and after it; `log` picks what of
+  // the payload goes in the log, or is false for events not worth logging.
+  const onControl = <E extends ClientEventName>(
+    event: E,
+    handler: Handler<E>,
+    {
+      log = (payload) => payload,
+    }: { log?: ((payload: ClientPayload<E>) => unknown) | false } = {},
+  ) =>
+    listen(event, async (payload, reply) => {
+      if (!socket.data.isController) {
+        reject(event, "Controller login required.", reply);
+        socket.emit("AUTH_STATUS", authStatus());
+        return;
+      }
+      const before = controlPosition();
+      // Refused events didn't change anything, so they aren't logged
+      let refused = false;
+      await handler(payload, (result) => {
+        refused = !result.ok;
+        reply(result);
+      });
+      if (log && !refused) recordControl(event, socket.handshake.address, log(payload) ?? null, before);
+    });
+
+  // Log in as a controller: (pin, ack) -> ack({ ok, error? })
+  listen("CONTROLLER_LOGIN", (pin, reply) => {
+    const result = controllerAuth.login(socket.handshake.address, pin);
+    if (result.ok) grantControl();
+    reply(result);
+    socket.emit("AUTH_STATUS", authStatus());
+  });
+
+  listen("CONTROLLER_LOGOUT", () => {
+    if (!controllerAuth.required) return;
+    socket.data.isController = false;
+    socket.leave(CONTROLLERS_ROOM);
+    socket.emit("AUTH_STATUS", authStatus());
+  });
+
+  // Show controls, shared with the HTTP API; a refused one is a protocol error
+  const onShowControl = <E extends ApiControlEvent>(event: E) =>
+    onControl(event, (payload, reply) => {
+      const error = showControls[event](payload);
+      if (error) reject(event, error, reply);
+    });
+  onShowControl("SET_INDEX");
+  onShowControl("SET_IDLE");
+  onShowControl("SET_CATEGORY");
+  onShowControl("SET_SHOW_JUDGE_SCORES");
+  onShowControl("START_REVEAL");
+  onShowControl("REVEAL_STEP");
+  onShowControl("END_REVEAL");
+
+  onControl("SET_DISPLAY_MODE", (mode) => {
+    if (mode === "announcement" && !announcement) return;
+    displayMode = mode;
+    broadcastState();
+  });
+
+  // Cue changes into the preview without touching any screen:
+  // { category?, index?, displayMode?, isIdle? }, or null to drop the cue.
+  // Cueing another category fetches its candidates for the preview.
+  onControl(
+    "CUE",
+    async (changes, reply) => {
+      if (!changes) {
+        cue = null;
+        sendPreview();
+        return;
+      }
+      const { candidates, ...current } = cue ?? { ...programCue(), candidates: null };
+      const next = { ...current, ...changes };
+      let nextCandidates = candidates;
+      if (next.category !== current.category) {
+        if (!scoreSource) {
+          reject("CUE", "No score source loaded.", reply);
+          return;
+        }
+        if (!categories.includes(next.category)) {
+          reject("CUE", `Unknown category: ${next.category}`, reply);
+          return;
+        }
+        next.index = changes.index ?? 0;
+        nextCandidates = null;
+        if (next.category !== currentCategory) {
+          try {
+            nextCandidates = await fetchCandidates(
+              scoreSource,
+              next.category,
+              await loadConfig(),
+            );
+          } catch (err) {
+            console.error(`Could not cue ${next.category}: ${(err as Error).message}`);
+            nextCandidates = [];
+          }
+        }
+      }
+      // Checked like SET_INDEX, against the candidates that would go on air
+      const cuedCandidates = nextCandidates ?? cachedCandidates;
+      if (next.index > 0 && next.index >= cuedCandidates.length) {
+        const error = `Index ${next.index} is out of range (${cuedCandidates.length} candidates).`;
+        reject("CUE", error, reply);
+        return;
+      }
+      cue = { ...next, candidates: nextCandidates };
+      sendPreview();
+    },
+    { log: false },
+  );
+
+  // Put the cued preview on air, with a cut or a fade
+  onControl("TAKE", (transition) => {
+    if (!cue) return;
+    const { candidates, ...next } = cue;
+    cue = null;
+    const categoryChanged = next.category !== currentCategory;
+    // A new candidate comes on with the judge scores hidden, as with SET_INDEX
+    if (categoryChanged || next.index !== currentIndex) showJudgeScores = false;
+    currentCategory = next.category;
+    currentIndex = next.index;
+    isIdle = next.isIdle;
+    if (next.displayMode !== "announcement" || announcement) {
+      displayMode = next.displayMode;
+    }
+    if (transition === "fade") fades++;
+    if (categoryChanged) {
+      // Go on air with the candidates fetched for the preview; the forced
+      // poll then refreshes them
+      cachedCandidates = candidates ?? [];
+      schedulePoll({ force: true });
+    }
+    broadcastState();
+    sendPreview();
+  });
+
+  // Show or hide one broadcast overlay: { overlay, visible }
+  onControl("SET_OVERLAY", ({ overlay, visible }) => {
+    overlays = { ...overlays, [overlay]: visible };
+    broadcastState();
+  });
+
+  // Control panels join the controllers room to receive private previews
+  onControl(
+    "JOIN_CONTROLLERS",
+    () => {
+      socket.join(CONTROLLERS_ROOM);
+      sendAnnouncementPreview(socket);
+      sendPreview(socket);
+      sendHistory(socket);
+      sendScreens(socket);
+    },
+    { log: false },
+  );
+
+  // A display on /view/:screen registers under its screen name
+  listen("JOIN_SCREEN", (name) => {
+    if (socket.data.screen) socket.leave(screenRoom(socket.data.screen));
+    socket.data.screen = name;
+    socket.join(screenRoom(name));
+    socket.emit("SCREEN_STATE", { screen: name, content: screenContent(name) });
+    sendScreens();
+  });
+
+  // Route one named screen: { screen, content }
+  onControl("SET_SCREEN_ROUTE", ({ screen, content }) => {
+    if (content === "main") delete screenRoutes[screen];
+    else screenRoutes[screen] = content;
+    io.to(screenRoom(screen)).emit("SCREEN_STATE", { screen, content });
+    showState.save(getSnapshot());
+    sendScreens();
+  });
+
+  // Rank a category and start a reverse-order Top N reveal: { category?, topN }
+  // Divisions are ranked separately, so only one of them is announced at a time
+  onControl("START_ANNOUNCEMENT", async (payload, reply) => {
+    const category = payload.category || currentCategory;
+    if (!scoreSource) {
+      reject("START_ANNOUNCEMENT", "No score source loaded.", reply);
+      return;
+    }
+    if (!categories.includes(category)) {
+      reject("START_ANNOUNCEMENT", `Unknown category: ${category}`, reply);
+      return;
+    }
+    try {
+      const config = await loadConfig();
+      const ranked = await fetchCandidates(scoreSource, category, config);
+      const divisions = divisionsOf(ranked);
+      const { division } = payload;
+      if (divisions.length > 1 && !division) {
+        reject(
+          "START_ANNOUNCEMENT",
+          `Pick a division to announce: ${divisions.join(", ")}.`,
+          reply,
+        );
+        return;
+      }
+      const candidates = division
+        ? ranked.filter((c) => (c.category ?? "") === division)
+        : ranked;
+      if (candidates.length === 0) {
+        reject("START_ANNOUNCEMENT", `No candidates in division "${division}".`, reply);
+        return;
+      }
+      // Announcing one of them as the higher place would name a wrong winner
+      const tied = unresolvedTies(candidates, payload.topN);
+      if (tied.length > 0) {
+        reject(
+          "START_ANNOUNCEMENT",
+          `Unresolved tie in the Top ${payload.topN}: ${tied.map((c) => c.name).join(", ")}. Add a tie-break rule or correct the scores first.`,
+          reply,
+        );
+        return;
+      }
+      // Freeze the order so late score edits can't reshuffle a running reveal
+      announcement = {
+        category,
+        ...(divisions.length > 1 && { division }),
+        placements: buildPlacements(candidates, payload.topN),
+        revealed: 0,
+        maxNumber: Math.max(
+          1,
+          ...candidates.map((c) => candidateNumber(c.name) ?? 0),
+        ),
+      };
+      displayMode = "announcement";
+    } catch (err) {
+      scoreError = `Announcement Error: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    broadcastState();
+    sendAnnouncementPreview();
+  });
+
+  // Reveal the next place (step: 1) or hide the last revealed one (step: -1)
+  onControl("ANNOUNCEMENT_STEP", (step) => {
+    if (!announcement) return;
+    announcement.revealed = Math.min(
+      announcement.placements.length,
+      Math.max(0, announcement.revealed + step),
+    );
+    broadcastState();
+    sendAnnouncementPreview();
+  });
+
+  onControl("END_ANNOUNCEMENT", () => {
+    announcement = null;
+    if (displayMode === "announcement") displayMode = "spotlight";
+    broadcastState();
+    sendAnnouncementPreview();
+  });
+
+  // Step through the candidates on their own: { seconds, loop, revealJudgesAfter }
+  onControl("START_SLIDESHOW", (settings) => {
+    if (settings.revealJudgesAfter !== null) showJudgeScores = false;
+    slideshow.start(settings);
+  });
+
+  onControl("SET_SLIDESHOW_PAUSED", (paused) => {
+    slideshow.setPaused(paused);
+  });
+
+  onControl("STOP_SLIDESHOW", () => {
+    slideshow.stop();
+  });
+
+  // Re-fetch the active category right away
+  onControl("REFRESH_SCORES", () => {
+    schedulePoll({ force: true });
+  });
+
+  // Switch to CSV/XLSX files uploaded from the controller: [{ name, data }]
+  onControl(
+    "LOAD_SCORE_FILES",
+    (files) => {
+      try {
+        const scoreFiles = files.map((file) => ({
+          name: file.name,
+          data: new Uint8Array(file.data).buffer,
+        }));
+        scoreSource = createLocalFileSource(scoreFiles);
+        uploadedFileNames = scoreFiles.map((file) => file.name);
+        showState
+          .saveUploads(scoreFiles)
+          .catch((err) =>
+            console.error(`Could not save uploaded score files: ${err.message}`),
+          );
+        categories = [];
+        scoreError = null;
+      } catch (err) {
+        scoreError = `File Error: ${err instanceof Error ? err.message : String(err)}`;
+        broadcastState();
+        return;
+      }
+      schedulePoll({ force: true });
+    },
+    // Log the file names, not the file contents
+    { log: (files) => files.map((file) => file.name) },
+  );
+
+  // Use scores entered on the judge tablets
+  onControl("USE_JUDGE_TABLETS", () => {
+    scoreSource = tabletSource;
+    uploadedFileNames = null;
+    categories = [];
+    scoreError = null;
+    schedulePoll({ force: true });
+  });
+
+  // Check a tablet's login as one judge, with the judge's own PIN
+  const judgeLogin = async (
+    judgeId: number,
+    pin: string | undefined,
+  ): Promise<ControllerLoginResult> => {
+    const judging = (await loadConfig()).judging;
+    if (!judging) return { ok: false, error: "Judge tablets are not configured." };
+    if (judgeId > judging.judges) return { ok: false, error: `Unknown judge: ${judgeId}` };
+    const expected = judgePin(judging, judgeId);
+    if (!expected) {
+      return { ok: false, error: `No PIN is set for judge ${judgeId}. Ask the operator to add one.` };
+    }
+    // A tablet without a stored PIN isn't a wrong guess, so it doesn't count to the lockout
+    if (!pin) return { ok: false, error: "Judge PIN required." };
+    return checkPin(socket.handshake.address, pin, expected);
+  };
+
+  // A judge tablet logs in; it then receives its scores in the current category
+  listen("JOIN_JUDGE", async ({ judgeId, pin }, reply) => {
+    const result = await judgeLogin(judgeId, pin);
+    if (!result.ok) {
+      reply(result);
+      return;
+    }
+
+    if (socket.data.judgeId !== undefined) socket.leave(`judge:${socket.data.judgeId}`);
+    socket.data.judgeId = judgeId;
+    socket.join(`judge:${judgeId}`);
+    reply({ ok: true });
+    sendJudgeScores(judgeId);
+  });
+
+  // A judge submits scores for one candidate: JudgeSubmission
+  listen("JUDGE_SUBMIT", async (submission, reply) => {
+    if (socket.data.judgeId !== submission.judgeId) {
+      reply({ ok: false, error: `Log in as judge ${submission.judgeId} first.` });
+      return;
+    }
+    try {
+      const config = await loadConfig();
+      const { judgeId, category, candidate, entry } = validateJudgeSubmission(
+        submission,
+        config,
+        judgeScores,
+      );
+      judgeScores.set(category, candidate, judgeId, entry);
+      showState.save(getSnapshot());
+      reply({ ok: true });
+      sendJudgeScores(judgeId);
+      if (scoreSource === tabletSource) schedulePoll();
+    } catch (err) {
+      reply({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // Close (or reopen) tablet scoring for a candidate in the current category
+  onControl("SET_CANDIDATE_LOCK", ({ candidate, locked }) => {
+    judgeScores.setLocked(currentCategory, candidate, locked);
+    broadcastState();
+  });
+
+  // Go back to the source configured in .env
+  onControl("RESET_SCORE_SOURCE", () => {
+    scoreSource = createDefaultSource();
+    uploadedFileNames = null;
+    categories = [];
+    scoreError = null;
+    schedulePoll({ force: true });
+  });
+
+  // Put back the position from before the latest logged change
+  onControl(
+    "UNDO",
+    () => {
+      const entry = history.lastUndoable();
+      if (!entry) return;
+      const before = controlPosition();
+      restorePosition(entry.before);
+      history.record({
+        event: "UNDO",
+        by: socket.handshake.address,
+        payload: entry.event,
+        undoes: entry.id,
+        before,
+        after: controlPosition(),
+      });
+      sendHistory();
+    },
+    { log: false },
+  );
+
+  // Clear the saved show (scores, tablet entries, position) and start over
+  onControl("NEW_SHOW", async () => {
+    await startNewShow();
+    broadcastState();
+    sendAnnouncementPreview();
+    sendPreview();
+    schedulePoll({ force: true });
+  });
+
+  // Store a cropped photo for a candidate (in one category, or all with
+  // category: null), or remove it with data: null
+  onControl(
+    "SET_PHOTO",
+    async ({ data, ...target }) => {
+      await photoStore.set(target, data);
+      schedulePoll({ force: true });
+    },
+    { log: ({ data, ...target }) => ({ ...target, removed: !data }) },
+  );
+
+  // Restyle every screen: { eventTitle?, watermark?, font?, colors? }
+  onControl("SET_THEME", async (changes) => {
+    io.emit("THEME", await themeStore.update(changes));
+  });
+
+  // Upload a new logo ({ name, data }), or null for the bundled one
+  onControl(
+    "SET_LOGO",
+    async (logo) => {
+      io.emit("THEME", await themeStore.setLogo(logo));
+    },
+    { log: (logo) => logo?.name ?? "bundled logo" },
+  );
+
+  // Replace the idle playlist with the controller's edited, reordered list
+  onControl(
+    "SET_IDLE_PLAYLIST",
+    async (items) => {
+      io.emit("IDLE_PLAYLIST", await idlePlaylist.set(items));
+    },
+    { log: (items) => `${items.length} items` },
+  );
+
+  // Upload a sponsor slide ({ name, data }) to the end of the idle playlist
+  onControl(
+    "ADD_IDLE_IMAGE",
+    async (image) => {
+      io.emit("IDLE_PLAYLIST", await idlePlaylist.addImage(image));
+    },
+    { log: (image) => image.name },
+  );
+
+  // Send this controller the tabulation report for every category
+  onControl(
+    "GET_REPORT",
+    async (_, reply) => {
+      try {
+        socket.emit("REPORT", await buildReport());
+        reply({ ok: true });
+      } catch (err) {
+        reply({
+          ok: false,
+          error: `Report error: ${err instanceof Error ? err.message : String(err)}`,
+        });
+      }
+    },
+    { log: false },
+  );
+
+  socket.on("disconnect", () => {
+    console.log("Client disconnected:", socket.id);
+    // Update the viewer counts in the routing matrix
+    if (socket.data.screen) sendScreens();
+  });
+});
+
+const PORT = 3001;
+httpServer.listen(PORT, "0.0.0.0", () => {
+  console.log(`Socket.io server running on port ${PORT}`);
+});
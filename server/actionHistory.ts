@@ -0,0 +1,44 @@
+// Append-only log of the control events the server accepted, with the show
+// position before and after each one, so the operator can undo a misclick.
+// Undoing appends an UNDO entry instead of rewriting the log.
+import type { ActionLogEntry, ControlPosition } from "../src/types.ts";
+
+// Oldest entries are dropped past this many
+const MAX_ENTRIES = 500;
+
+const samePosition = (a: ControlPosition, b: ControlPosition) =>
+  a.currentIndex === b.currentIndex &&
+  a.category === b.category &&
+  a.isIdle === b.isIdle &&
+  a.showJudgeScores === b.showJudgeScores;
+
+export function createActionHistory() {
+  let entries: ActionLogEntry[] = [];
+  let nextId = 1;
+
+  return {
+    record(entry: Omit<ActionLogEntry, "id" | "time">) {
+      const logged = { id: nextId++, time: new Date().toISOString(), ...entry };
+      entries.push(logged);
+      if (entries.length > MAX_ENTRIES) entries = entries.slice(-MAX_ENTRIES);
+      return logged;
+    },
+
+    // The latest entry that moved the show and hasn't been undone yet
+    lastUndoable() {
+      const undone = new Set(
+        entries.filter((e) => e.event === "UNDO").map((e) => e.undoes),
+      );
+      for (let i = entries.length - 1; i >= 0; i--) {
+        const entry = entries[i];
+        if (entry.event === "UNDO" || undone.has(entry.id)) continue;
+        if (!samePosition(entry.before, entry.after)) return entry;
+      }
+      return null;
+    },
+
+    list() {
+      return entries;
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import express, { type Request, type Response } from "express";
+import {
+  parseClientPayload,
+  type ClientPayload,
+  type ShowState,
+} from "../src/protocol.ts";
+import type { ControllerLoginResult } from "../src/types.ts";
+
+// Control events the HTTP API can send
+export type ApiControlEvent =
+  | "SET_INDEX"
+  | "SET_IDLE"
+  | "SET_CATEGORY"
+  | "SET_SHOW_JUDGE_SCORES"
+  | "START_REVEAL"
+  | "REVEAL_STEP"
+  | "END_REVEAL";
+
+interface ControlApiOptions {
+  // The controller PIN check, lockout included
+  auth: {
+    required: boolean;
+    login: (address: string, pin: unknown) => ControllerLoginResult;
+  };
+  // Accept the PIN as a `pin` query parameter too, for devices that can't
+  // set headers. Off by default: URLs end up in logs and device configs.
+  allowQueryPin: boolean;
+  getState: () => ShowState;
+  // Run a checked control event, as the socket event would, and log it.
+  // Returns a message when the event is refused (e.g. an index out of range).
+  control: <E extends ApiControlEvent>(
+    event: E,
+    payload: ClientPayload<E>,
+    by: string,
+  ) => string | void;
+}
+
+// A move to another candidate hides the judge scores, like a TAKE does
+const moveTo = (index: number, state: ShowState) =>
+  index === state.currentIndex ? { index } : { index, showJudgeScores: false };
+
+const lastIndex = (state: ShowState) => Math.max(0, state.candidates.length - 1);
+
+// A route tied to its event's payload type. Values from the URL are still
+// checked with the event's schema, since `Number("abc")` is a number too.
+type ControlRoute = {
+  [E in ApiControlEvent]: {
+    path: string;
+    event: E;
+    payload: (req: Request, state: ShowState) => ClientPayload<E>;
+  };
+}[ApiControlEvent];
+
+// Each route sends one control event, with the payload built from the URL and
+// the show state, so a button only needs a POST without a body
+const routes: ControlRoute[] = [
+  {
+    path: "/next",
+    event: "SET_INDEX",
+    payload: (_, state) =>
+      moveTo(Math.min(lastIndex(state), state.currentIndex + 1), state),
+  },
+  {
+    path: "/prev",
+    event: "SET_INDEX",
+    payload: (_, state) => moveTo(Math.max(0, state.currentIndex - 1), state),
+  },
+  {
+    path: "/index/:index",
+    event: "SET_INDEX",
+    payload: (req, state) => moveTo(Number(req.params.index), state),
+  },
+  {
+    path: "/category/:category",
+    event: "SET_CATEGORY",
+    payload: (req) => ({ category: String(req.params.category) }),
+  },
+  { path: "/idle/on", event: "SET_IDLE", payload: () => true },
+  { path: "/idle/off", event: "SET_IDLE", payload: () => false },
+  { path: "/judge-scores/show", event: "SET_SHOW_JUDGE_SCORES", payload: () => true },
+  { path: "/judge-scores/hide", event: "SET_SHOW_JUDGE_SCORES", payload: () => false },
+  { path: "/reveal/start", event: "START_REVEAL", payload: () => undefined },
+  { path: "/reveal/next", event: "REVEAL_STEP", payload: () => 1 },
+  { path: "/reveal/back", event: "REVEAL_STEP", payload: () => -1 },
+  { path: "/reveal/end", event: "END_REVEAL", payload: () => undefined },
+];
+
+// HTTP endpoints for Stream Deck, Companion and scripts that can't speak
+// Socket.IO. They take the controller PIN in an X-Controller-Pin header (or a
+// `pin` query parameter, when allowed) and check payloads with the socket
+// events' schemas.
+export function createControlApi({
+  auth,
+  allowQueryPin,
+  getState,
+  control,
+}: ControlApiOptions) {
+  const router = express.Router();
+
+  // Same as the show state viewers receive, so no PIN is needed
+  router.get("/state", (_, res) => {
+    res.json(getState());
+  });
+
+  const authorize = (req: Request, res: Response) => {
+    const header = req.get("X-Controller-Pin");
+    const query = req.query.pin;
+    const pin = header ?? (allowQueryPin ? query : undefined);
+    // A request without a PIN isn't a wrong guess, so it doesn't count to the lockout
+    const result: ControllerLoginResult =
+      auth.required && !pin
+        ? {
+            ok: false,
+            error:
+              query !== undefined
+                ? "Send the PIN in an X-Controller-Pin header; ?pin= is turned off on this server."
+                : "Controller PIN required.",
+          }
+        : auth.login(req.ip ?? "", pin);
+    if (!result.ok) res.status(401).json(result);
+    return result.ok;
+  };
+
+  for (const { path, event, payload } of routes) {
+    router.post(path, (req, res) => {
+      if (!authorize(req, res)) return;
+      const parsed = parseClientPayload(event, payload(req, getState()));
+      if (!parsed.ok) {
+        res.status(400).json({ ok: false, error: parsed.error });
+        return;
+      }
+      const error = control(event, parsed.data, `HTTP ${req.ip}`);
+      if (error) {
+        res.status(400).json({ ok: false, error });
+        return;
+      }
+      res.json({ ok: true });
+    });
+  }
+
+  router.use((_, res) => {
+    res.status(404).json({ ok: false, error: "Unknown API route." });
+  });
+
+  return router;
+}
@@ -0,0 +1,71 @@
+import crypto from "crypto";
+import type { ControllerLoginResult } from "../src/types.ts";
+
+// After this many wrong PINs from one address, refuse logins for a while
+const MAX_FAILURES = 5;
+const LOCKOUT_MS = 60 * 1000;
+
+// Compare without leaking how many leading characters matched
+const samePin = (a: string, b: string) => {
+  const hashA = crypto.createHash("sha256").update(a).digest();
+  const hashB = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+};
+
+// PIN check with a lockout per address, shared by everything checked against
+// it, so guesses can't be spread over several PINs
+export function createPinCheck() {
+  // Wrong PINs per address, and when a lockout ends
+  const failures = new Map<string, { count: number; until: number }>();
+
+  // Check a PIN sent by `address` against `pin`
+  return (address: string, attempt: unknown, pin: string): ControllerLoginResult => {
+    const record = failures.get(address);
+    if (record && record.until > Date.now()) {
+      return { ok: false, error: "Too many wrong PINs. Try again in a minute." };
+    }
+    if (typeof attempt === "string" && samePin(attempt, pin)) {
+      failures.delete(address);
+      return { ok: true };
+    }
+
+    const count = (record?.count || 0) + 1;
+    failures.set(address, {
+      count: count >= MAX_FAILURES ? 0 : count,
+      until: count >= MAX_FAILURES ? Date.now() + LOCKOUT_MS : 0,
+    });
+    return { ok: false, error: "Wrong PIN.", wrongPin: true };
+  };
+}
+
+// Controller login against the PIN configured on the server. Without a PIN
+// every client is a controller, as before.
+export function createControllerAuth(
+  pin: string | undefined,
+  check = createPinCheck(),
+) {
+  return {
+    required: !!pin,
+
+    // Check a PIN sent by `address`
+    login(address: string, attempt: unknown): ControllerLoginResult {
+      if (!pin) return { ok: true };
+      return check(address, attempt, pin);
+    },
+  };
+}
+
+// Browsers may only connect from pages served by this machine (the Vite dev
+// server or the built app, on any port) or from `allowed`, so a page opened
+// elsewhere on a venue browser can't connect and guess PINs. Requests without
+// an Origin come from scripts and hardware controllers, not browsers.
+export function createOriginCheck(allowed: string[]) {
+  return (origin: string | undefined, host: string | undefined) => {
+    if (!origin || allowed.includes(origin)) return true;
+    try {
+      return !!host && new URL(origin).hostname === new URL(`http://${host}`).hostname;
+    } catch {
+      return false;
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  createLocalFileSource,
+  type ScoreFile,
+} from "../src/sources/localFile.ts";
+import type { ScoreSource } from "../src/types.ts";
+
+const SCORE_FILE_PATTERN = /\.(csv|xlsx|xls)$/i;
+
+// Read a score file, or every CSV/XLSX file in a directory
+async function readScoreFiles(targetPath: string): Promise<ScoreFile[]> {
+  const stat = await fs.stat(targetPath);
+  const filePaths = stat.isDirectory()
+    ? (await fs.readdir(targetPath))
+        .filter((name) => SCORE_FILE_PATTERN.test(name) && !name.startsWith("~$"))
+        .sort()
+        .map((name) => path.join(targetPath, name))
+    : [targetPath];
+
+  return Promise.all(
+    filePaths.map(async (filePath) => {
+      const buffer = await fs.readFile(filePath);
+      return {
+        name: path.basename(filePath),
+        data: buffer.buffer.slice(
+          buffer.byteOffset,
+          buffer.byteOffset + buffer.byteLength,
+        ),
+      };
+    }),
+  );
+}
+
+// Score source reading CSV/XLSX files from the server's disk. Unlike an
+// uploaded file, the files are re-read on every call, so edits saved on the
+// laptop are picked up by the next poll.
+export function createDiskFileSource(targetPath: string): ScoreSource {
+  const load = async () => createLocalFileSource(await readScoreFiles(targetPath));
+
+  return {
+    label: path.basename(targetPath),
+    async listCategories() {
+      return (await load()).listCategories();
+    },
+    async fetchRows(category: string) {
+      return (await load()).fetchRows(category);
+    },
+  };
+}
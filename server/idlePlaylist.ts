@@ -0,0 +1,103 @@
+import fs from "fs/promises";
+import path from "path";
+import type { IdleItem, IdlePlaylist } from "../src/types.ts";
+import { createJsonWriter } from "./jsonWriter.ts";
+
+// URL path the uploaded playlist images are served under
+export const IDLE_ASSETS_PATH = "/idle-assets";
+
+// How long an uploaded image stays up until the operator changes it
+const DEFAULT_SECONDS = 10;
+
+const newId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// The idle screen playlist on disk, with its uploaded images in `assetsDir`.
+// Like the theme it belongs to the event, so "start new show" leaves it
+// alone. The server also runs the rotation, so every idle screen shows the
+// same slide; `changed` is called with the playlist whenever that moves.
+export function createIdlePlaylist(
+  filePath: string,
+  assetsDir: string,
+  changed: (playlist: IdlePlaylist) => void,
+) {
+  let items: IdleItem[] = [];
+  let current = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const get = (): IdlePlaylist => ({ items, current });
+
+  const writer = createJsonWriter<IdleItem[]>(filePath, 2);
+  const save = () => writer.save(items);
+
+  // Show the current slide for its time, then move on to the next one
+  const rotate = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (items.length < 2) return;
+    timer = setTimeout(() => {
+      current = (current + 1) % items.length;
+      changed(get());
+      rotate();
+    }, items[current].seconds * 1000);
+  };
+
+  // Delete uploaded images no item uses any more
+  const pruneImages = async () => {
+    const used = new Set(
+      items.flatMap((item) => (item.type === "image" ? [path.basename(item.image)] : [])),
+    );
+    const files = await fs.readdir(assetsDir).catch(() => [] as string[]);
+    await Promise.all(
+      files
+        .filter((file) => !used.has(file))
+        .map((file) => fs.rm(path.join(assetsDir, file), { force: true })),
+    );
+  };
+
+  return {
+    async load() {
+      try {
+        items = JSON.parse(await fs.readFile(filePath, "utf8"));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Ignoring saved idle playlist ${filePath}: ${(err as Error).message}`);
+        }
+      }
+      rotate();
+    },
+
+    get,
+
+    // Replace the items (edited, reordered or removed in the controller). The
+    // slide on screen stays up when it is still in the list.
+    async set(nextItems: IdleItem[]) {
+      const showing = items[current]?.id;
+      items = nextItems;
+      current = Math.max(0, items.findIndex((item) => item.id === showing));
+      await save();
+      await pruneImages();
+      rotate();
+      return get();
+    },
+
+    // Add an uploaded image to the end of the playlist
+    async addImage(file: { name: string; data: ArrayBuffer | Uint8Array }) {
+      await fs.mkdir(assetsDir, { recursive: true });
+      const fileName = `slide-${Date.now()}${path.extname(file.name).toLowerCase()}`;
+      await fs.writeFile(path.join(assetsDir, fileName), new Uint8Array(file.data));
+      items = [
+        ...items,
+        {
+          id: newId(),
+          seconds: DEFAULT_SECONDS,
+          type: "image",
+          image: `${IDLE_ASSETS_PATH}/${fileName}`,
+        },
+      ];
+      await save();
+      rotate();
+      return get();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import fs from "fs/promises";
+
+// Writes a value to `filePath` as JSON, atomically (temp file + rename) so a
+// crash mid-write can't leave a half-written file behind. One write runs at a
+// time, so overlapping saves can't race on the temp file; saves made during a
+// write are coalesced into one write of the latest value.
+export function createJsonWriter<T>(filePath: string, space?: number) {
+  // Latest value waiting to be written, and the saves it settles
+  let pending: {
+    value: T;
+    waiters: { resolve: () => void; reject: (err: unknown) => void }[];
+  } | null = null;
+  let writing: Promise<void> | null = null; // Promise of the writes in progress
+
+  const flush = async () => {
+    while (pending) {
+      const { value, waiters } = pending;
+      pending = null;
+      try {
+        const tmpPath = `${filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(value, null, space));
+        await fs.rename(tmpPath, filePath);
+        waiters.forEach(({ resolve }) => resolve());
+      } catch (err) {
+        waiters.forEach(({ reject }) => reject(err));
+      }
+    }
+    writing = null;
+  };
+
+  return {
+    // Queue `value`; resolves once it (or a later value) is on disk
+    save(value: T) {
+      return new Promise<void>((resolve, reject) => {
+        pending = { value, waiters: [...(pending?.waiters ?? []), { resolve, reject }] };
+        if (!writing) writing = flush();
+      });
+    },
+
+    // Drop the queued value and wait for the write in progress, e.g. before
+    // deleting the file
+    async discard() {
+      pending?.waiters.forEach(({ resolve }) => resolve());
+      pending = null;
+      await writing;
+    },
+  };
+}
@@ -0,0 +1,193 @@
+// Scores entered on judge tablets (/judge/:id), kept in server memory and
+// exposed as a score source. The source writes the scores out as rows in the
+// usual CANDIDATE/JUDGE layout, so the shared parser handles criteria,
+// weights and totals exactly as it does for a sheet.
+import type {
+  JudgeEntry,
+  JudgeSubmission,
+  JudgingSettings,
+  ScoreSource,
+  ShowConfig,
+} from "../src/types.ts";
+
+const entryKey = (category: string, candidate: string) =>
+  `${category}\u0000${candidate}`;
+
+export const tabletCandidateNames = (judging: JudgingSettings | undefined) =>
+  Array.from({ length: judging?.candidates || 0 }, (_, i) => `CANDIDATE ${i + 1}`);
+
+// PIN a judge's tablet must give, from `judging.pins`. There is no fallback:
+// the controller PIN would let a judge run the whole show.
+export const judgePin = (judging: JudgingSettings, judgeId: number) =>
+  judging.pins?.[judgeId - 1]?.trim() || undefined;
+
+// Judges whose tablets can't log in because `judging.pins` has no PIN for them
+export const judgesWithoutPin = (judging: JudgingSettings | undefined) =>
+  judging
+    ? Array.from({ length: judging.judges }, (_, i) => i + 1).filter(
+        (judgeId) => !judgePin(judging, judgeId),
+      )
+    : [];
+
+// Plain-JSON form of the store, saved with the show state
+export interface JudgeStoreSnapshot {
+  entries: [string, [number, JudgeEntry][]][];
+  locked: string[];
+}
+
+export function createJudgeScoreStore() {
+  // entryKey(category, candidate) -> Map(judgeId -> entry)
+  const entries = new Map<string, Map<number, JudgeEntry>>();
+  // entryKey(category, candidate) of candidates closed for scoring
+  const locked = new Set<string>();
+
+  return {
+    get(category: string, candidate: string, judgeId: number) {
+      return entries.get(entryKey(category, candidate))?.get(judgeId);
+    },
+    set(category: string, candidate: string, judgeId: number, entry: JudgeEntry) {
+      const key = entryKey(category, candidate);
+      if (!entries.has(key)) entries.set(key, new Map());
+      entries.get(key)!.set(judgeId, entry);
+    },
+    // All of one judge's entries in a category: { [candidate]: entry }
+    forJudge(category: string, judgeId: number, candidateNames: string[]) {
+      const result: Record<string, JudgeEntry> = {};
+      for (const name of candidateNames) {
+        const entry = entries.get(entryKey(category, name))?.get(judgeId);
+        if (entry) result[name] = entry;
+      }
+      return result;
+    },
+    isLocked(category: string, candidate: string) {
+      return locked.has(entryKey(category, candidate));
+    },
+    setLocked(category: string, candidate: string, isLocked: boolean) {
+      const key = entryKey(category, candidate);
+      if (isLocked) locked.add(key);
+      else locked.delete(key);
+    },
+    lockedIn(category: string, candidateNames: string[]) {
+      return candidateNames.filter((name) => locked.has(entryKey(category, name)));
+    },
+    // Plain-JSON snapshot for persisting the show to disk
+    toJSON(): JudgeStoreSnapshot {
+      return {
+        entries: Array.from(entries, ([key, judges]) => [key, Array.from(judges)]),
+        locked: Array.from(locked),
+      };
+    },
+    restore(snapshot: JudgeStoreSnapshot | undefined) {
+      this.clear();
+      for (const [key, judges] of snapshot?.entries || []) {
+        entries.set(key, new Map(judges));
+      }
+      for (const key of snapshot?.locked || []) locked.add(key);
+    },
+    clear() {
+      entries.clear();
+      locked.clear();
+    },
+  };
+}
+
+export type JudgeScoreStore = ReturnType<typeof createJudgeScoreStore>;
+
+// Check a tablet submission against the judging setup. Returns the entry to
+// store, or throws with a message the tablet can show.
+export function validateJudgeSubmission(
+  payload: JudgeSubmission,
+  config: ShowConfig,
+  store: JudgeScoreStore,
+) {
+  const judging = config.judging;
+  if (!judging) throw new Error("Judge tablets are not configured.");
+
+  const judgeId = payload.judgeId;
+  if (!Number.isInteger(judgeId) || judgeId < 1 || judgeId > judging.judges) {
+    throw new Error(`Unknown judge: ${judgeId}`);
+  }
+  const category = payload.category;
+  if (!judging.categories.includes(category)) {
+    throw new Error(`Unknown category: ${category}`);
+  }
+  const candidate = payload.candidate;
+  if (!tabletCandidateNames(judging).includes(candidate)) {
+    throw new Error(`Unknown candidate: ${candidate}`);
+  }
+  if (store.isLocked(category, candidate)) {
+    throw new Error(`Scoring for ${candidate} is closed.`);
+  }
+
+  const checkScore = (score: number | undefined, label: string) => {
+    if (score === undefined || !Number.isFinite(score) || score < 0 || score > 100) {
+      throw new Error(`${label} must be a number from 0 to 100.`);
+    }
+    return score;
+  };
+
+  const criteria = config.categories?.[category]?.criteria;
+  if (criteria?.length) {
+    const result: Record<string, number> = {};
+    for (const { name } of criteria) {
+      result[name] = checkScore(payload.criteria?.[name], name);
+    }
+    return { judgeId, category, candidate, entry: { criteria: result } };
+  }
+  return {
+    judgeId,
+    category,
+    candidate,
+    entry: { score: checkScore(payload.score, "Score") },
+  };
+}
+
+// Score source reading from the tablet store, using the judging setup and
+// criteria from the show config
+export function createJudgeTabletSource(
+  store: JudgeScoreStore,
+  loadConfig: () => Promise<ShowConfig>,
+): ScoreSource {
+  return {
+    label: "Judge Tablets",
+
+    async listCategories() {
+      const config = await loadConfig();
+      return config.judging?.categories || [];
+    },
+
+    async fetchRows(category: string) {
+      const config = await loadConfig();
+      const judging = config.judging;
+      if (!judging?.categories.includes(category)) {
+        throw new Error(`Category "${category}" is not scored on tablets.`);
+      }
+      const names = tabletCandidateNames(judging);
+      const criteria = (config.categories?.[category]?.criteria || []).map((c) => c.name);
+      const width = Math.max(1, criteria.length);
+
+      const header = [""];
+      const labels = [""];
+      for (const name of names) {
+        header.push(name, ...Array(width - 1).fill(""));
+        labels.push(...criteria);
+      }
+      const rows: string[][] = [[category], header];
+      if (criteria.length > 0) rows.push(labels);
+
+      for (let judgeId = 1; judgeId <= judging.judges; judgeId++) {
+        const row = [`JUDGE ${judgeId}`];
+        for (const name of names) {
+          const entry = store.get(category, name, judgeId);
+          if (criteria.length > 0) {
+            row.push(...criteria.map((c) => String(entry?.criteria?.[c] ?? "")));
+          } else {
+            row.push(String(entry?.score ?? ""));
+          }
+        }
+        rows.push(row);
+      }
+      return rows;
+    },
+  };
+}
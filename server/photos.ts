@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { ParsedCandidate } from "../src/lib/scoreParser.ts";
+import { candidateKey } from "../src/lib/overall.ts";
+import { createJsonWriter } from "./jsonWriter.ts";
+
+// URL path the stored photos are served under
+export const PHOTOS_PATH = "/photos";
+
+// A dotfile, so it isn't served along with the photos
+const INDEX_FILE = ".index.json";
+
+// Who a photo is for: a candidate as the sheet names it, in every category or
+// only in one (e.g. a gown photo for "Evening Gown")
+export interface PhotoTarget {
+  candidate: string;
+  division?: string; // The candidate's block label, for Male/Female divisions
+  category: string | null;
+}
+
+// Index key: the category (or "*") and the candidate's number and division
+const photoKey = (target: PhotoTarget) =>
+  `${target.category ?? "*"}|${
+    candidateKey({ name: target.candidate, category: target.division }) ??
+    target.candidate.toLowerCase()
+  }`;
+
+const shortHash = (data: string | Uint8Array) =>
+  crypto.createHash("sha256").update(data).digest("hex").slice(0, 12);
+
+// One file per index key, replaced in place on every upload: readable, and
+// with a hash of the key so two keys never share a file
+const photoFileName = (key: string) =>
+  `${key.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "")}-${shortHash(key).slice(0, 8)}.jpg`;
+
+// A stored photo: its file, and a hash of its content for the URL
+interface PhotoEntry {
+  file: string;
+  version: string;
+}
+
+// Candidate photos uploaded from the controller, kept in `dir` with an index
+// of which file belongs to whom. A candidate's photo keeps its path, and the
+// URL carries a hash of the content (?v=), so screens can cache photos for
+// good and still get a replaced one at once.
+export function createPhotoStore(dir: string) {
+  let index: Record<string, PhotoEntry> = {};
+
+  const indexWriter = createJsonWriter<Record<string, PhotoEntry>>(
+    path.join(dir, INDEX_FILE),
+    2,
+  );
+  const saveIndex = () => indexWriter.save(index);
+
+  const removeFile = (fileName: string | undefined) =>
+    fileName ? fs.rm(path.join(dir, fileName), { force: true }) : undefined;
+
+  // URL of a candidate's photo: the one for this category, else the one for
+  // every category
+  const photoFor = (candidate: ParsedCandidate, category: string) => {
+    const target = { candidate: candidate.name, division: candidate.category };
+    const entry =
+      index[photoKey({ ...target, category })] ??
+      index[photoKey({ ...target, category: null })];
+    return entry && `${PHOTOS_PATH}/${entry.file}?v=${entry.version}`;
+  };
+
+  return {
+    async load() {
+      try {
+        const saved: Record<string, PhotoEntry | string> = JSON.parse(
+          await fs.readFile(path.join(dir, INDEX_FILE), "utf8"),
+        );
+        // Indexes saved before versions existed list a file name per key,
+        // and each of those files was unique to one upload
+        index = Object.fromEntries(
+          Object.entries(saved).map(([key, entry]) => [
+            key,
+            typeof entry === "string" ? { file: entry, version: shortHash(entry) } : entry,
+          ]),
+        );
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Ignoring photo index in ${dir}: ${(err as Error).message}`);
+        }
+      }
+    },
+
+    // Set `photo` on the candidates of a category that have one
+    attach<C extends ParsedCandidate>(candidates: C[], category: string): C[] {
+      return candidates.map((candidate) => {
+        const photo = photoFor(candidate, category);
+        return photo ? { ...candidate, photo } : candidate;
+      });
+    },
+
+    // Store a (cropped) JPEG for a candidate, or remove their photo with null
+    async set(target: PhotoTarget, data: ArrayBuffer | Uint8Array | null) {
+      const key = photoKey(target);
+      const file = photoFileName(key);
+      await fs.mkdir(dir, { recursive: true });
+      // A file from an older index has another name
+      if (index[key]?.file !== file) await removeFile(index[key]?.file);
+      if (data) {
+        const bytes = new Uint8Array(data);
+        // Replaced by rename, so a screen never loads a half-written photo;
+        // each upload has its own temp file, so overlapping ones can't clash
+        const tmpPath = path.join(dir, `.${file}.${crypto.randomUUID()}.tmp`);
+        await fs.writeFile(tmpPath, bytes);
+        await fs.rename(tmpPath, path.join(dir, file));
+        index[key] = { file, version: shortHash(bytes) };
+      } else {
+        await removeFile(file);
+        delete index[key];
+      }
+      await saveIndex();
+    },
+  };
+}
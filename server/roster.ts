@@ -0,0 +1,31 @@
+import path from "path";
+import type { ScoreSource, ShowConfig } from "../src/types.ts";
+import { parseRosterRows, type Roster } from "../src/lib/roster.ts";
+import { createDiskFileSource } from "./diskSource.ts";
+
+// Load the candidate roster named in the show config: a file (relative to
+// the config file) or a sheet in the current score source. Read along with
+// the scores, so roster edits show up on the next poll. A roster that can't
+// be read is reported and left out rather than stopping the scores.
+export async function loadRoster(
+  config: ShowConfig,
+  configPath: string,
+  source: ScoreSource,
+): Promise<Roster | undefined> {
+  const settings = config.roster;
+  try {
+    if (settings?.file) {
+      const file = createDiskFileSource(
+        path.resolve(path.dirname(configPath), settings.file),
+      );
+      const [sheet] = await file.listCategories();
+      return parseRosterRows(await file.fetchRows(sheet));
+    }
+    if (settings?.sheet) {
+      return parseRosterRows(await source.fetchRows(settings.sheet));
+    }
+  } catch (err) {
+    console.error(`Ignoring roster: ${(err as Error).message}`);
+  }
+  return undefined;
+}
@@ -0,0 +1,16 @@
+import fs from "fs/promises";
+import type { ShowConfig } from "../src/types.ts";
+
+// Load the show configuration (category criteria, weights, ...) from JSON.
+// Read on every poll so edits apply without restarting the server. A missing
+// file means "no configuration"; a broken one is reported and ignored.
+export async function loadShowConfig(configPath: string): Promise<ShowConfig> {
+  try {
+    return JSON.parse(await fs.readFile(configPath, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Ignoring show config ${configPath}: ${(err as Error).message}`);
+    }
+    return {};
+  }
+}
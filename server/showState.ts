@@ -0,0 +1,69 @@
+import fs from "fs/promises";
+import path from "path";
+import type { ScoreFile } from "../src/sources/localFile.ts";
+import { createJsonWriter } from "./jsonWriter.ts";
+
+// Snapshot of the running show on disk, so a crashed or restarted server
+// comes back where it left off. Uploaded score files are kept next to the
+// snapshot, since they only exist in memory otherwise.
+export function createShowStateStore<Snapshot>(
+  filePath: string,
+  uploadsDir: string,
+) {
+  const writer = createJsonWriter<Snapshot>(filePath);
+
+  return {
+    async load(): Promise<Snapshot | null> {
+      try {
+        return JSON.parse(await fs.readFile(filePath, "utf8"));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Ignoring saved show state ${filePath}: ${(err as Error).message}`);
+        }
+        return null;
+      }
+    },
+
+    // Queue a snapshot; rapid changes are coalesced into one write
+    save(snapshot: Snapshot) {
+      writer.save(snapshot).catch((err) => {
+        console.error(`Could not save show state: ${(err as Error).message}`);
+      });
+    },
+
+    async saveUploads(files: ScoreFile[]) {
+      await fs.rm(uploadsDir, { recursive: true, force: true });
+      await fs.mkdir(uploadsDir, { recursive: true });
+      await Promise.all(
+        files.map((file) =>
+          fs.writeFile(
+            path.join(uploadsDir, path.basename(file.name)),
+            Buffer.from(file.data),
+          ),
+        ),
+      );
+    },
+
+    async loadUploads(names: string[]): Promise<ScoreFile[]> {
+      return Promise.all(
+        names.map(async (name) => {
+          const buffer = await fs.readFile(path.join(uploadsDir, path.basename(name)));
+          return {
+            name,
+            data: buffer.buffer.slice(
+              buffer.byteOffset,
+              buffer.byteOffset + buffer.byteLength,
+            ),
+          };
+        }),
+      );
+    },
+
+    // Forget the saved show entirely ("start new show")
+    async clear() {
+      await writer.discard();
+      await fs.rm(filePath, { force: true });
+      await fs.rm(uploadsDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import type { SlideshowSettings, SlideshowStatus } from "../src/types.ts";
+
+// What a slideshow does to the show; the server owns the show state
+export interface SlideshowActions {
+  // Put the next candidate on screen with the judge scores hidden; false when
+  // there is none (the last candidate, without loop)
+  advance(loop: boolean): boolean;
+  revealJudgeScores(): void;
+  // The slideshow started, paused, resumed or ended
+  changed(): void;
+}
+
+// Auto-advance through the candidates on the main screen. The timers run
+// here on the server, so a controller laptop going to sleep can't stall the
+// show. Pausing keeps how far into the current slide it was.
+export function createSlideshow(actions: SlideshowActions) {
+  let status: SlideshowStatus | null = null;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+  let slideStartedAt = 0; // When the current slide started, shifted by pauses
+  let pausedAt = 0;
+
+  const clearTimers = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+  };
+
+  // Schedule the rest of the current slide, `elapsed` ms into it
+  const schedule = (elapsed: number) => {
+    if (!status) return;
+    clearTimers();
+    slideStartedAt = Date.now() - elapsed;
+    const { seconds, loop, revealJudgesAfter } = status;
+    if (revealJudgesAfter !== null && revealJudgesAfter * 1000 >= elapsed) {
+      timers.push(
+        setTimeout(actions.revealJudgeScores, revealJudgesAfter * 1000 - elapsed),
+      );
+    }
+    timers.push(
+      setTimeout(() => {
+        if (actions.advance(loop)) schedule(0);
+        else stop();
+      }, Math.max(0, seconds * 1000 - elapsed)),
+    );
+  };
+
+  const stop = () => {
+    clearTimers();
+    if (!status) return;
+    status = null;
+    actions.changed();
+  };
+
+  return {
+    get: () => status,
+
+    // Start on the candidate already on screen, which gets a full slide
+    start(settings: SlideshowSettings) {
+      status = { ...settings, paused: false };
+      schedule(0);
+      actions.changed();
+    },
+
+    setPaused(paused: boolean) {
+      if (!status || status.paused === paused) return;
+      status = { ...status, paused };
+      if (paused) {
+        clearTimers();
+        pausedAt = Date.now();
+      } else {
+        schedule(pausedAt - slideStartedAt);
+      }
+      actions.changed();
+    },
+
+    stop,
+
+    // A slideshow saved with the show comes back paused, for the operator to resume
+    restore(saved: SlideshowStatus | null) {
+      clearTimers();
+      status = saved && { ...saved, paused: true };
+      slideStartedAt = pausedAt = Date.now();
+    },
+  };
+}
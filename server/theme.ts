@@ -0,0 +1,54 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Theme, ThemeChanges } from "../src/types.ts";
+import { DEFAULT_THEME, mergeTheme } from "../src/lib/theme.ts";
+import { createJsonWriter } from "./jsonWriter.ts";
+
+// URL path the uploaded logo is served under
+export const THEME_ASSETS_PATH = "/theme-assets";
+
+// The event theme on disk. It belongs to the event rather than the show, so
+// "start new show" leaves it alone. The uploaded logo lives in `assetsDir`
+// under a new name on every upload, so screens never show a cached old logo.
+export function createThemeStore(filePath: string, assetsDir: string) {
+  let theme: Theme = DEFAULT_THEME;
+
+  const writer = createJsonWriter<Theme>(filePath, 2);
+  const save = () => writer.save(theme);
+
+  return {
+    async load() {
+      try {
+        const saved = JSON.parse(await fs.readFile(filePath, "utf8"));
+        theme = { ...mergeTheme(DEFAULT_THEME, saved), logo: saved.logo ?? null };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Ignoring saved theme ${filePath}: ${(err as Error).message}`);
+        }
+      }
+    },
+
+    get: () => theme,
+
+    async update(changes: ThemeChanges) {
+      theme = { ...mergeTheme(theme, changes), logo: theme.logo };
+      await save();
+      return theme;
+    },
+
+    // Replace the logo with an uploaded image, or go back to the bundled one
+    async setLogo(file: { name: string; data: ArrayBuffer | Uint8Array } | null) {
+      await fs.rm(assetsDir, { recursive: true, force: true });
+      let logo: string | null = null;
+      if (file) {
+        await fs.mkdir(assetsDir, { recursive: true });
+        const fileName = `logo-${Date.now()}${path.extname(file.name).toLowerCase()}`;
+        await fs.writeFile(path.join(assetsDir, fileName), new Uint8Array(file.data));
+        logo = `${THEME_ASSETS_PATH}/${fileName}`;
+      }
+      theme = { ...theme, logo };
+      await save();
+      return theme;
+    },
+  };
+}
@@ -1,9 +1,56 @@
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { useScores } from "./hooks/useScores";
+import { useEffect, type ReactNode } from "react";
+import {
+  BrowserRouter,
+  Routes,
+  Route,
+  Navigate,
+  useParams,
+} from "react-router-dom";
 import { usePresentationController } from "./hooks/usePresentation";
 import { Spotlight } from "./components/Spotlight";
 import { ControlPanel } from "./components/ControlPanel";
 import { IdleScreen } from "./components/IdleScreen";
+import { Leaderboard } from "./components/Leaderboard";
+import { Announcement } from "./components/Announcement";
+import { JudgePanel, type JudgePanelProps } from "./components/JudgePanel";
+import type { DisplayMode, ScreenContent } from "./types";
+import { ControllerLogin } from "./components/ControllerLogin";
+import { Report } from "./components/Report";
+import { useAppliedTheme } from "./hooks/useAppliedTheme";
+import { ViewerConnectionStatus } from "./components/ConnectionStatus";
+import {
+  CornerLeaderboard,
+  LowerThird,
+  OverlayFrame,
+  ScoreBug,
+} from "./components/Overlays";
+
+// Named screen route: the screen name comes from the URL (/view/led-wall)
+function NamedScreenRoute({
+  joinScreen,
+  children,
+}: {
+  joinScreen: (name: string) => void;
+  children: ReactNode;
+}) {
+  const { screen } = useParams();
+  useEffect(() => {
+    if (screen) joinScreen(screen);
+  }, [screen, joinScreen]);
+  return <>{children}</>;
+}
+
+// Broadcast overlay route: the overlay comes from the URL (/overlay/score-bug)
+function OverlayRoute({ render }: { render: (name: string) => ReactNode }) {
+  const { name } = useParams();
+  return <OverlayFrame>{name && render(name)}</OverlayFrame>;
+}
+
+// Judge tablet route: the judge number comes from the URL (/judge/3)
+function JudgeRoute(props: Omit<JudgePanelProps, "judgeId">) {
+  const { id } = useParams();
+  return <JudgePanel judgeId={Number(id)} {...props} />;
+}
 
 function ScoreboardApp() {
   // Sync state between tabs/windows
@@ -12,112 +59,308 @@ function ScoreboardApp() {
     setIndex,
     remoteCandidates,
     isIdle,
-    toggleIdle,
     selectedCategory,
-    setCategory,
     showJudgeScores,
     setShowJudgeScores,
-  } = usePresentationController(0);
-
-  // Use selected category for fetching scores
-  const {
-    candidates: localCandidates,
-    loading,
+    displayMode,
+    announcement,
+    announcementPreview,
+    preview,
+    cue,
+    take,
+    fades,
+    overlays,
+    setOverlay,
+    slideshow,
+    startSlideshow,
+    setSlideshowPaused,
+    stopSlideshow,
+    reveal,
+    startReveal,
+    stepReveal,
+    endReveal,
+    joinControllers,
+    startAnnouncement,
+    stepAnnouncement,
+    endAnnouncement,
+    categories,
+    overallCategory,
+    sourceLabel,
     error,
+    loading,
     refresh,
-    categories,
-  } = useScores(selectedCategory);
+    loadLocalFiles,
+    resetSource,
+    startNewShow,
+    switchToJudgeTablets,
+    judgeTablets,
+    lockedCandidates,
+    judgeOwnScores,
+    joinJudge,
+    submitJudgeScores,
+    setCandidateLock,
+    actionHistory,
+    undo,
+    screenContent,
+    screens,
+    joinScreen,
+    setScreenRoute,
+    report,
+    requestReport,
+    theme,
+    setTheme,
+    setLogo,
+    setPhoto,
+    idlePlaylist,
+    setIdlePlaylist,
+    addIdleImage,
+    controllerAuth,
+    loginController,
+    logoutController,
+    connection,
+    refusal,
+    dismissRefusal,
+  } = usePresentationController(0);
+
+  // Every screen follows the event theme set from the controller
+  useAppliedTheme(theme);
+
+  // Scores are fetched and parsed by the server and pushed to every client
+  const candidates = remoteCandidates;
+
+  // Shared idle/loading/empty handling for every viewer screen, with a
+  // discreet flag when the server is unreachable
+  const renderViewer = (screen: ReactNode, idle: boolean = isIdle) => (
+    <>
+      {idle ? (
+        <IdleScreen
+          logoUrl={theme.logo}
+          eventTitle={theme.eventTitle}
+          playlist={idlePlaylist}
+          nextCategory={categories[categories.indexOf(selectedCategory) + 1]}
+        />
+      ) : (
+        <div className="h-screen w-screen overflow-hidden bg-black">
+          {loading && candidates.length === 0 && (
+            <div className="text-white p-10">Loading...</div>
+          )}
+          {!loading && error && candidates.length === 0 && (
+            <div className="text-red-500 p-10">{error}</div>
+          )}
+          {!loading && !error && candidates.length === 0 && (
+            <div className="flex h-screen items-center justify-center text-white">
+              No candidates found. Waiting for Controller...
+            </div>
+          )}
+          {candidates.length > 0 && screen}
+        </div>
+      )}
+      <ViewerConnectionStatus connection={connection} />
+    </>
+  );
+
+  // Control routes stay behind the PIN login until the server grants control
+  const renderController = (panel: ReactNode) =>
+    controllerAuth?.controller ? (
+      panel
+    ) : (
+      <ControllerLogin ready={!!controllerAuth} login={loginController} />
+    );
+
+  // Shared by /admin and its /controller alias
+  const controlPanel = renderController(
+    <ControlPanel
+      candidates={candidates}
+      currentIndex={currentIndex}
+      loading={loading}
+      error={error}
+      refresh={refresh}
+      isIdle={isIdle}
+      categories={categories}
+      overallCategory={overallCategory}
+      selectedCategory={selectedCategory}
+      showJudgeScores={showJudgeScores}
+      setShowJudgeScores={setShowJudgeScores}
+      displayMode={displayMode}
+      preview={preview}
+      cue={cue}
+      take={take}
+      overlays={overlays}
+      setOverlay={setOverlay}
+      slideshow={slideshow}
+      startSlideshow={startSlideshow}
+      setSlideshowPaused={setSlideshowPaused}
+      stopSlideshow={stopSlideshow}
+      reveal={reveal}
+      startReveal={startReveal}
+      stepReveal={stepReveal}
+      endReveal={endReveal}
+      announcementPreview={announcementPreview}
+      joinControllers={joinControllers}
+      startAnnouncement={startAnnouncement}
+      stepAnnouncement={stepAnnouncement}
+      endAnnouncement={endAnnouncement}
+      sourceLabel={sourceLabel}
+      loadLocalFiles={loadLocalFiles}
+      resetSource={resetSource}
+      startNewShow={startNewShow}
+      switchToJudgeTablets={switchToJudgeTablets}
+      judgeTablets={judgeTablets}
+      lockedCandidates={lockedCandidates}
+      setCandidateLock={setCandidateLock}
+      actionHistory={actionHistory}
+      undo={undo}
+      screens={screens}
+      setScreenRoute={setScreenRoute}
+      theme={theme}
+      setTheme={setTheme}
+      setLogo={setLogo}
+      setPhoto={setPhoto}
+      idlePlaylist={idlePlaylist}
+      setIdlePlaylist={setIdlePlaylist}
+      addIdleImage={addIdleImage}
+      logout={controllerAuth?.pinRequired ? logoutController : undefined}
+      connection={connection}
+      refusal={refusal}
+      dismissRefusal={dismissRefusal}
+    />,
+  );
+
+  const spotlight = candidates.length > 0 && (
+    <Spotlight
+      candidate={
+        candidates[currentIndex >= candidates.length ? 0 : currentIndex]
+      }
+      onNext={() =>
+        setIndex(Math.min(candidates.length - 1, currentIndex + 1))
+      }
+      onPrev={() => setIndex(Math.max(0, currentIndex - 1))}
+      currentIndex={currentIndex}
+      totalCandidates={candidates.length}
+      controlsVisible={false}
+      activeCategory={selectedCategory}
+      showJudgeScores={showJudgeScores}
+      reveal={reveal}
+      watermark={theme.watermark}
+    />
+  );
+
+  const leaderboard = (
+    <Leaderboard candidates={candidates} activeCategory={selectedCategory} />
+  );
 
-  // Prefer remote candidates if available (from Controller), otherwise use local (initial load/Controller itself)
-  const candidates =
-    remoteCandidates.length > 0 ? remoteCandidates : localCandidates;
+  // Viewer content for a display mode; announcement needs a running one
+  const byMode = (mode: DisplayMode) =>
+    mode === "announcement" && announcement ? (
+      <Announcement announcement={announcement} />
+    ) : mode === "leaderboard" ? (
+      leaderboard
+    ) : (
+      spotlight
+    );
+
+  // "main" follows the main screen, including its idle toggle, and fades in
+  // again on every TAKE with a fade; any other routing shows that content
+  // regardless of the main screen
+  const renderScreen = (content: ScreenContent) =>
+    content === "main" ? (
+      <div key={fades} className={fades ? "program-fade" : undefined}>
+        {renderViewer(byMode(displayMode))}
+      </div>
+    ) : content === "idle" ? (
+      renderViewer(null, true)
+    ) : (
+      renderViewer(byMode(content), false)
+    );
+
+  // Broadcast overlays follow the main screen and hide while it is idle
+  const renderOverlay = (name: string) => {
+    const candidate = candidates[currentIndex];
+    switch (name) {
+      case "lower-third":
+        return (
+          <LowerThird
+            candidate={candidate}
+            category={selectedCategory}
+            visible={overlays["lower-third"] && !isIdle}
+          />
+        );
+      case "score-bug":
+        return (
+          <ScoreBug
+            candidate={candidate}
+            category={selectedCategory}
+            visible={overlays["score-bug"] && !isIdle}
+            showJudgeScores={showJudgeScores}
+            reveal={reveal}
+          />
+        );
+      case "leaderboard":
+        return (
+          <CornerLeaderboard
+            candidates={candidates}
+            category={selectedCategory}
+            visible={overlays.leaderboard && !isIdle}
+          />
+        );
+      default:
+        return null;
+    }
+  };
 
   return (
     <Routes>
       {/* Viewer Route - Display Only */}
+      <Route path="/view" element={renderScreen("main")} />
+
+      {/* Named Screen Route - routed separately from the controller */}
       <Route
-        path="/view"
+        path="/view/:screen"
         element={
-          isIdle ? (
-            <IdleScreen />
-          ) : (
-            <div className="h-screen w-screen overflow-hidden bg-black">
-              {loading && candidates.length === 0 && (
-                <div className="text-white p-10">Loading...</div>
-              )}
-              {!loading && error && candidates.length === 0 && (
-                <div className="text-red-500 p-10">{error}</div>
-              )}
-              {!loading && !error && candidates.length === 0 && (
-                <div className="flex h-screen items-center justify-center text-white">
-                  No candidates found. Waiting for Controller...
-                </div>
-              )}
-              {candidates.length > 0 && (
-                <Spotlight
-                  candidate={
-                    candidates[
-                      currentIndex >= candidates.length ? 0 : currentIndex
-                    ]
-                  }
-                  onNext={() =>
-                    setIndex(Math.min(candidates.length - 1, currentIndex + 1))
-                  }
-                  onPrev={() => setIndex(Math.max(0, currentIndex - 1))}
-                  currentIndex={currentIndex}
-                  totalCandidates={candidates.length}
-                  controlsVisible={false}
-                  activeCategory={selectedCategory}
-                  showJudgeScores={showJudgeScores}
-                />
-              )}
-            </div>
-          )
+          <NamedScreenRoute joinScreen={joinScreen}>
+            {renderScreen(screenContent)}
+          </NamedScreenRoute>
         }
       />
 
-      {/* Controller Route */}
+      {/* Leaderboard Viewer Route */}
+      <Route path="/leaderboard" element={renderViewer(leaderboard)} />
+
+      {/* Broadcast Overlay Routes - transparent 1920x1080 browser sources */}
       <Route
-        path="/admin"
+        path="/overlay/:name"
+        element={<OverlayRoute render={renderOverlay} />}
+      />
+
+      {/* Judge Tablet Route */}
+      <Route
+        path="/judge/:id"
         element={
-          <ControlPanel
-            candidates={candidates}
-            currentIndex={currentIndex}
-            setIndex={setIndex}
-            loading={loading}
-            error={error}
-            refresh={refresh}
+          <JudgeRoute
+            candidate={candidates[currentIndex]}
+            category={selectedCategory}
             isIdle={isIdle}
-            toggleIdle={toggleIdle}
-            categories={categories}
-            selectedCategory={selectedCategory}
-            setCategory={setCategory}
-            showJudgeScores={showJudgeScores}
-            setShowJudgeScores={setShowJudgeScores}
+            judgeTablets={judgeTablets}
+            locked={lockedCandidates.includes(candidates[currentIndex]?.name)}
+            ownScores={judgeOwnScores}
+            joinJudge={joinJudge}
+            submitJudgeScores={submitJudgeScores}
           />
         }
       />
 
+      {/* Controller Route */}
+      <Route path="/admin" element={controlPanel} />
+
       {/* Controller Route Alias */}
+      <Route path="/controller" element={controlPanel} />
+
+      {/* Tabulation Report Route - printable, with CSV/JSON export */}
       <Route
-        path="/controller"
-        element={
-          <ControlPanel
-            candidates={candidates}
-            currentIndex={currentIndex}
-            setIndex={setIndex}
-            loading={loading}
-            error={error}
-            refresh={refresh}
-            isIdle={isIdle}
-            toggleIdle={toggleIdle}
-            categories={categories}
-            selectedCategory={selectedCategory}
-            setCategory={setCategory}
-            showJudgeScores={showJudgeScores}
-            setShowJudgeScores={setShowJudgeScores}
-          />
-        }
+        path="/report"
+        element={renderController(
+          <Report report={report} requestReport={requestReport} />,
+        )}
       />
 
       {/* Default Route - Redirect to Admin for ease of use, or Viewer? 
@@ -0,0 +1,94 @@
+import React from "react";
+import type { ActionLogEntry, ControlPosition } from "../types";
+
+// What an entry changed in the show position, e.g. "Candidate 3 → 4"
+const describeChange = (before: ControlPosition, after: ControlPosition) => {
+  const changes: string[] = [];
+  if (before.category !== after.category) {
+    changes.push(`Category ${before.category || "-"} → ${after.category || "-"}`);
+  }
+  if (before.currentIndex !== after.currentIndex) {
+    changes.push(`Candidate ${before.currentIndex + 1} → ${after.currentIndex + 1}`);
+  }
+  if (before.isIdle !== after.isIdle) {
+    changes.push(after.isIdle ? "Idle on" : "Idle off");
+  }
+  if (before.showJudgeScores !== after.showJudgeScores) {
+    changes.push(after.showJudgeScores ? "Judges shown" : "Judges hidden");
+  }
+  return changes.join(", ");
+};
+
+const describePayload = (payload: unknown) => {
+  if (payload === null || payload === undefined) return "";
+  if (typeof payload === "object") return JSON.stringify(payload);
+  return String(payload);
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+interface ActionHistoryProps {
+  entries: ActionLogEntry[];
+  onUndo: () => void;
+}
+
+// Scrolling log of control actions, newest first, with Undo
+export const ActionHistory: React.FC<ActionHistoryProps> = ({
+  entries,
+  onUndo,
+}) => {
+  const undone = new Set(
+    entries.filter((e) => e.event === "UNDO").map((e) => e.undoes),
+  );
+  // Mirrors the server: only entries that moved the show can be undone
+  const canUndo = entries.some(
+    (e) =>
+      e.event !== "UNDO" &&
+      !undone.has(e.id) &&
+      describeChange(e.before, e.after) !== "",
+  );
+
+  return (
+    <div className="mx-4 md:mx-8 mb-4 h-32 md:h-40 flex flex-col rounded-xl border border-gray-700 bg-gray-900 overflow-hidden shrink-0">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-gray-800">
+        <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">
+          History
+        </span>
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="text-xs px-3 py-1 rounded border border-gray-600 hover:border-gray-400 disabled:opacity-50 font-bold uppercase tracking-wider touch-manipulation"
+        >
+          Undo
+        </button>
+      </div>
+      <div className="overflow-y-auto flex-1 text-xs font-mono">
+        {entries.length === 0 && (
+          <div className="p-3 text-gray-500">No actions yet.</div>
+        )}
+        {[...entries].reverse().map((entry) => (
+          <div
+            key={entry.id}
+            className={`flex items-baseline space-x-3 px-3 py-1 border-b border-gray-800/60
+              ${undone.has(entry.id) ? "line-through opacity-40" : ""}
+              ${entry.event === "UNDO" ? "text-pageant-gold" : "text-gray-300"}
+            `}
+          >
+            <span className="text-gray-500">{formatTime(entry.time)}</span>
+            <span className="font-bold">{entry.event}</span>
+            <span className="flex-1 min-w-0 truncate">
+              {describeChange(entry.before, entry.after) ||
+                describePayload(entry.payload)}
+            </span>
+            <span className="text-gray-500 truncate max-w-[8rem]">{entry.by}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
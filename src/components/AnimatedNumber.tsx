@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from "react";
+
+// Small animated number component: counts from 0 to target on mount/when target changes
+export const AnimatedNumber: React.FC<{
+  target: number;
+  duration?: number;
+  className?: string;
+  // Range of the random numbers shown before settling (default 80-99)
+  randomMin?: number;
+  randomMax?: number;
+  // Decimal places the settled number is shown with (default 0)
+  decimals?: number;
+}> = ({
+  target,
+  duration = 3000,
+  className = "",
+  randomMin = 80,
+  randomMax = 99,
+  decimals = 0,
+}) => {
+  const [value, setValue] = useState(0);
+  const rafRef = useRef<number | null>(null);
+  const startRef = useRef<number | null>(null);
+  const [pulse, setPulse] = useState(false);
+  const pulseTimeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const factor = 10 ** decimals;
+    const round = (v: number) => Math.round(v * factor) / factor;
+    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    startRef.current = null;
+    // Show random numbers first (80-99 by default) for a portion of the duration,
+    // then settle smoothly to the real target for the remaining time.
+    const randomPhaseRatio = 0.7; // 70% time showing randoms
+    const randomPhaseDuration = duration * randomPhaseRatio;
+    const settleDuration = Math.max(1, duration - randomPhaseDuration);
+    let lastRandom = Math.round((randomMin + randomMax) / 2);
+    let settleStartValue: number | null = null;
+    // random tick will accelerate -> decelerate: start fast, end slow
+    const randomTickMin = 80; // start updating very fast (ms)
+    const randomTickMax = 500; // end updating slowly (ms)
+    const lastRandomTimeRef = { current: 0 } as { current: number };
+    const randomTargetRef = { current: lastRandom } as { current: number };
+    const randomStartRef = { current: lastRandom } as { current: number };
+    const tickStartRef = { current: 0 } as { current: number };
+
+    const start = (t: number) => {
+      if (!startRef.current) startRef.current = t;
+      const elapsed = t - startRef.current;
+
+      if (elapsed < randomPhaseDuration) {
+        // Random phase: show random numbers in [randomMin, randomMax]
+        // Tick interval interpolates from randomTickMin -> randomTickMax over the phase
+        const phaseProgress = Math.min(elapsed / randomPhaseDuration, 1);
+        const tickInterval = Math.round(
+          randomTickMin + (randomTickMax - randomTickMin) * phaseProgress,
+        );
+
+        // time to start a new random tick
+        if (
+          !lastRandomTimeRef.current ||
+          t - lastRandomTimeRef.current >= tickInterval
+        ) {
+          const nextRandom = Math.floor(
+            randomMin + Math.random() * (randomMax - randomMin + 1),
+          );
+          lastRandomTimeRef.current = t;
+          // set up interpolation from previous target -> new target over tickInterval
+          randomStartRef.current = randomTargetRef.current;
+          randomTargetRef.current = nextRandom;
+          tickStartRef.current = t;
+          // pulse visual feedback on each new random value
+          setPulse(true);
+          if (pulseTimeoutRef.current)
+            window.clearTimeout(pulseTimeoutRef.current);
+          pulseTimeoutRef.current = window.setTimeout(
+            () => setPulse(false),
+            240,
+          ) as any;
+        }
+
+        // interpolate between randomStart -> randomTarget for smooth numeric transition
+        const sinceTick = t - tickStartRef.current;
+        const innerProgress = tickStartRef.current
+          ? Math.min(sinceTick / Math.max(1, tickInterval), 1)
+          : 1;
+        const easedInner = 1 - Math.pow(1 - innerProgress, 3);
+        const interp = Math.round(
+          randomStartRef.current +
+          easedInner * (randomTargetRef.current - randomStartRef.current),
+        );
+        setValue(interp);
+        rafRef.current = requestAnimationFrame(start);
+        return;
+      }
+
+      // Settle phase: smoothly move from lastRandom to target
+      if (settleStartValue === null) {
+        settleStartValue = lastRandom;
+      }
+      const settleElapsed = Math.min(
+        elapsed - randomPhaseDuration,
+        settleDuration,
+      );
+      const progress =
+        settleDuration <= 0 ? 1 : Math.min(settleElapsed / settleDuration, 1);
+      // ease-out cubic
+      const eased = 1 - Math.pow(1 - progress, 3);
+      const v = round(settleStartValue + eased * (target - settleStartValue));
+      setValue(v);
+      if (progress < 1) {
+        rafRef.current = requestAnimationFrame(start);
+      } else {
+        setValue(round(target));
+        setPulse(true);
+        if (pulseTimeoutRef.current)
+          window.clearTimeout(pulseTimeoutRef.current);
+        pulseTimeoutRef.current = window.setTimeout(
+          () => setPulse(false),
+          260,
+        ) as any;
+      }
+    };
+    rafRef.current = requestAnimationFrame(start);
+    return () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+      if (pulseTimeoutRef.current) window.clearTimeout(pulseTimeoutRef.current);
+    };
+  }, [target, duration, randomMin, randomMax, decimals]);
+
+  return (
+    <span
+      className={className}
+      style={{
+        display: "inline-block",
+        transform: pulse ? "scale(1.08)" : "scale(1)",
+        transition: "transform 180ms ease",
+      }}
+    >
+      {value.toFixed(decimals)}
+    </span>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from "react";
+import type { Announcement as AnnouncementState, Placement } from "../types";
+import { AnimatedNumber } from "./AnimatedNumber";
+import { candidateNumber } from "../lib/overall";
+import { displayName } from "../lib/roster";
+import { announcementTitle } from "../lib/placements";
+import { avatarUrl } from "../lib/candidatePhotos";
+
+// How long the candidate number spins before the winner is shown
+const SUSPENSE_MS = 4000;
+
+// The place being announced: title first, then a spinning candidate number,
+// then the photo and name once the number settles
+const RevealedPlacement: React.FC<{ placement: Placement; maxNumber: number }> = ({
+  placement,
+  maxNumber,
+}) => {
+  const { candidate } = placement;
+  const number = candidate.profile?.number ?? candidateNumber(candidate.name);
+  const [landed, setLanded] = useState(false);
+  const [imageUrl, setImageUrl] = useState(avatarUrl(candidate.name));
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setLanded(true), SUSPENSE_MS);
+    return () => window.clearTimeout(timeout);
+  }, []);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImageUrl(candidate.photoUrl);
+    img.src = candidate.photoUrl;
+  }, [candidate.photoUrl]);
+
+  return (
+    <div className="relative z-10 flex flex-col items-center text-center space-y-4 md:space-y-8 px-6">
+      <div className="animate-fade-in-up text-3xl md:text-7xl font-bold uppercase tracking-[0.2em] text-pageant-gold drop-shadow-2xl">
+        {placement.title}
+      </div>
+
+      {number !== null && (
+        <div className="text-white/80 uppercase tracking-[0.3em] text-lg md:text-3xl font-semibold flex items-baseline space-x-4">
+          <span>Candidate No.</span>
+          <AnimatedNumber
+            target={number}
+            duration={SUSPENSE_MS}
+            randomMin={1}
+            randomMax={Math.max(maxNumber, number)}
+            className="text-5xl md:text-8xl font-bold font-mono text-white"
+          />
+        </div>
+      )}
+
+      {landed && (
+        <div
+          className="flex flex-col items-center space-y-4"
+          style={{
+            animationName: "fadeInFromTop",
+            animationDuration: "900ms",
+            animationTimingFunction: "cubic-bezier(.2,.8,.2,1)",
+            animationFillMode: "both",
+          }}
+        >
+          <img
+            src={imageUrl}
+            alt={candidate.name}
+            className="w-40 h-40 md:w-80 md:h-80 rounded-full object-cover object-top border-4 border-pageant-gold shadow-2xl"
+          />
+          <h2 className="text-4xl md:text-7xl font-bold tracking-tight drop-shadow-2xl">
+            {displayName(candidate)}
+          </h2>
+          {candidate.profile?.hometown && (
+            <div className="text-lg md:text-2xl text-white/80 font-semibold">
+              {candidate.profile.hometown}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface AnnouncementProps {
+  announcement: AnnouncementState;
+}
+
+export const Announcement: React.FC<AnnouncementProps> = ({ announcement }) => {
+  const { revealed } = announcement;
+  const latest = revealed[revealed.length - 1];
+  const earlier = revealed.slice(0, -1);
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-black text-white flex flex-col items-center justify-center relative">
+      <div className="absolute inset-0 ethereal-gradient opacity-20 animate-pulse" />
+
+      {latest ? (
+        // Keyed by place so each new reveal restarts the suspense
+        <RevealedPlacement
+          key={latest.place}
+          placement={latest}
+          maxNumber={announcement.maxNumber}
+        />
+      ) : (
+        <div className="relative z-10 text-center space-y-4 animate-fade-in-up">
+          <div className="text-sm md:text-xl text-white/60 uppercase tracking-[0.4em]">
+            {announcementTitle(announcement)}
+          </div>
+          <h1 className="text-4xl md:text-8xl font-bold uppercase tracking-[0.2em] text-pageant-gold">
+            Top {announcement.total}
+          </h1>
+        </div>
+      )}
+
+      {/* Places announced so far */}
+      {earlier.length > 0 && (
+        <div className="absolute bottom-6 md:bottom-10 inset-x-0 z-10 flex flex-wrap justify-center gap-2 md:gap-4 px-4">
+          {earlier.map((p) => (
+            <div
+              key={p.place}
+              className="px-4 py-2 rounded-full bg-black/60 backdrop-blur-md border border-pageant-gold/30 text-xs md:text-base"
+            >
+              <span className="text-pageant-gold font-bold uppercase tracking-widest mr-2">
+                {p.title}
+              </span>
+              <span>{displayName(p.candidate)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import type { Candidate } from "../types";
+import type { AnnouncementPreview } from "../hooks/usePresentation";
+import { displayName } from "../lib/roster";
+import { overallDivision } from "../lib/overall";
+import { announcementTitle, divisionsOf } from "../lib/placements";
+
+interface AnnouncementSetupProps {
+  // The selected category's candidates, for its divisions
+  candidates: Candidate[];
+  selectedCategory: string;
+  overallCategory?: string | null;
+  active: boolean;
+  onStart: (category: string, topN: number, division?: string) => void;
+  onEnd: () => void;
+}
+
+// Sidebar form: pick the ranking to announce and how many places
+export const AnnouncementSetup: React.FC<AnnouncementSetupProps> = ({
+  candidates,
+  selectedCategory,
+  overallCategory,
+  active,
+  onStart,
+  onEnd,
+}) => {
+  const [topN, setTopN] = useState(6);
+  const [useOverall, setUseOverall] = useState(false);
+  const [division, setDivision] = useState("");
+  const overall = useOverall && overallCategory;
+  const category = overall ? overallCategory : selectedCategory;
+  // Divisions are ranked separately, so one is picked to announce. The overall
+  // ranking splits into the same Male/Female divisions as its sheets.
+  const divisions = divisionsOf(
+    overall
+      ? candidates.map((c) => ({ category: overallDivision(c, overallCategory) }))
+      : candidates,
+  );
+  const pickedDivision =
+    divisions.length > 1
+      ? divisions.includes(division)
+        ? division
+        : divisions[0]
+      : undefined;
+
+  if (active) {
+    return (
+      <button
+        onClick={onEnd}
+        className="w-full text-xs font-bold uppercase tracking-wider bg-red-600 hover:bg-red-500 p-2 rounded"
+      >
+        End Announcement
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 text-xs">
+      <span className="text-gray-400 uppercase tracking-wider font-semibold whitespace-nowrap">
+        Announce Top
+      </span>
+      <input
+        type="number"
+        min={1}
+        max={20}
+        value={topN}
+        title="Number of places to announce"
+        onChange={(e) => setTopN(Math.max(1, Number(e.target.value) || 1))}
+        className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+      />
+      {overallCategory && overallCategory !== selectedCategory && (
+        <select
+          title="Ranking to announce"
+          value={useOverall ? "overall" : "current"}
+          onChange={(e) => setUseOverall(e.target.value === "overall")}
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+        >
+          <option value="current">{selectedCategory}</option>
+          <option value="overall">{overallCategory}</option>
+        </select>
+      )}
+      {pickedDivision !== undefined && (
+        <select
+          title="Division to announce"
+          value={pickedDivision}
+          onChange={(e) => setDivision(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+        >
+          {divisions.map((d) => (
+            <option key={d} value={d}>
+              {d || "No division"}
+            </option>
+          ))}
+        </select>
+      )}
+      <button
+        onClick={() => onStart(category, topN, pickedDivision)}
+        disabled={!category}
+        className="bg-pageant-purple hover:bg-indigo-600 disabled:opacity-50 px-3 py-1 rounded font-bold whitespace-nowrap ml-auto"
+      >
+        Start
+      </button>
+    </div>
+  );
+};
+
+// Controller-only view of the full order, with the hidden places still marked
+export const AnnouncementPreviewPane: React.FC<{
+  preview: AnnouncementPreview;
+}> = ({ preview }) => {
+  return (
+    <div className="w-full h-full overflow-y-auto p-4 md:p-8 space-y-2">
+      <div className="flex justify-between items-baseline mb-2">
+        <h2 className="text-pageant-gold font-bold uppercase tracking-widest text-sm">
+          Announcement Preview - {announcementTitle(preview)}
+        </h2>
+        <span className="text-xs text-gray-400">
+          {preview.revealed} / {preview.placements.length} revealed
+        </span>
+      </div>
+      {preview.placements.map((p, i) => {
+        const isRevealed = i < preview.revealed;
+        const isNext = i === preview.revealed;
+        return (
+          <div
+            key={p.place}
+            className={`flex items-center space-x-3 p-3 rounded-lg border
+              ${isNext ? "border-pageant-gold bg-pageant-purple/40" : "border-gray-700"}
+              ${isRevealed ? "opacity-50" : ""}
+            `}
+          >
+            <div className="w-36 text-xs font-bold uppercase tracking-wider text-pageant-gold">
+              {p.title}
+            </div>
+            <div className="flex-1 min-w-0 font-bold truncate">
+              {displayName(p.candidate)}
+              {p.candidate.category && (
+                <span className="ml-2 text-xs font-normal opacity-70 uppercase">
+                  {p.candidate.category}
+                </span>
+              )}
+            </div>
+            <div className="font-mono text-sm">
+              {p.candidate.totalPercentage.toFixed(2)}%
+            </div>
+            <div className="w-16 text-right text-[10px] uppercase font-bold">
+              {isRevealed ? "On Air" : isNext ? "Next" : "Hidden"}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
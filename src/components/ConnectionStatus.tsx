@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from "react";
+import type { Connection } from "../types";
+
+// Viewers only flag an outage that lasts longer than a blip
+const VIEWER_GRACE_MS = 3000;
+
+// "0:42", "12:05"
+const formatDuration = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+// Milliseconds since `since`, ticking every second while `running`
+const useElapsed = (since: number, running: boolean) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [since, running]);
+  return now - since;
+};
+
+// Status line at the top of the control panel; offline, it says for how long
+// and that clicks are dropped, not sent later
+export const ControllerConnectionStatus: React.FC<{ connection: Connection }> = ({
+  connection,
+}) => {
+  const offline = connection.status === "offline";
+  const elapsed = useElapsed(connection.since, offline);
+
+  if (connection.status === "connected") {
+    return (
+      <div className="flex items-center space-x-2 text-xs text-gray-500">
+        <span className="h-2 w-2 rounded-full bg-green-500" />
+        <span>Connected to server</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`flex items-center space-x-2 text-xs font-bold px-3 py-2 rounded ${
+        offline ? "bg-red-700 text-white" : "bg-yellow-600 text-black"
+      }`}
+    >
+      <span
+        className={`h-2 w-2 rounded-full animate-pulse ${offline ? "bg-white" : "bg-black"}`}
+      />
+      <span>
+        {offline
+          ? `Offline for ${formatDuration(elapsed)}, reconnecting. Clicks made now are discarded; repeat them once back online.`
+          : "Connecting to server..."}
+      </span>
+    </div>
+  );
+};
+
+// Small dot in a corner of viewer screens during an outage, so the crew can
+// tell a frozen screen from a quiet one without the audience noticing much
+export const ViewerConnectionStatus: React.FC<{ connection: Connection }> = ({
+  connection,
+}) => {
+  const offline = connection.status === "offline";
+  const elapsed = useElapsed(connection.since, offline);
+
+  if (!offline || elapsed < VIEWER_GRACE_MS) return null;
+
+  return (
+    <div
+      className="fixed bottom-3 right-3 z-50 flex items-center space-x-1.5 text-[10px] uppercase tracking-wider text-white/40"
+      title={`Offline for ${formatDuration(elapsed)}`}
+    >
+      <span className="h-2 w-2 rounded-full bg-red-500/70 animate-pulse" />
+      <span>Offline</span>
+    </div>
+  );
+};
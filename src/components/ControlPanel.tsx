@@ -1,16 +1,49 @@
 import React, { useEffect, useState } from "react";
-import type { Candidate } from "../types";
-
-// Helper to generate fallback avatar URL
-const getFallbackAvatarUrl = (name: string) =>
-  `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random&color=fff&size=128`;
+import type {
+  ActionLogEntry,
+  Candidate,
+  Connection,
+  DisplayMode,
+  IdleItem,
+  IdlePlaylist,
+  OverlayName,
+  OverlayVisibility,
+  ProgramCue,
+  RevealState,
+  ScreenContent,
+  ScreenRoute,
+  SlideshowSettings,
+  SlideshowStatus,
+  Theme,
+  ThemeChanges,
+  Transition,
+} from "../types";
+import type { AnnouncementPreview, Preview } from "../hooks/usePresentation";
+import type { ProtocolError } from "../protocol";
+import {
+  AnnouncementPreviewPane,
+  AnnouncementSetup,
+} from "./AnnouncementControls";
+import { ActionHistory } from "./ActionHistory";
+import { ScreenRouting } from "./ScreenRouting";
+import { TieWarnings } from "./TieWarnings";
+import { ThemeSettings } from "./ThemeSettings";
+import { PhotoEditor } from "./PhotoEditor";
+import { TakeBar } from "./TakeBar";
+import { RevealControls } from "./RevealControls";
+import { ControllerConnectionStatus } from "./ConnectionStatus";
+import { SlideshowControls } from "./SlideshowControls";
+import { IdlePlaylistEditor } from "./IdlePlaylistEditor";
+import { OverlayControls } from "./OverlayControls";
+import { displayName } from "../lib/roster";
+import { avatarUrl } from "../lib/candidatePhotos";
 
 // Hook to get image URL with fallback
 const useImageWithFallback = (photoUrl: string, name: string) => {
-  const [imgSrc, setImgSrc] = useState(getFallbackAvatarUrl(name));
+  const [imgSrc, setImgSrc] = useState(avatarUrl(name));
 
   useEffect(() => {
-    setImgSrc(getFallbackAvatarUrl(name));
+    setImgSrc(avatarUrl(name));
     const img = new Image();
     img.onload = () => setImgSrc(photoUrl);
     img.src = photoUrl;
@@ -61,8 +94,13 @@ const CandidatePreview: React.FC<{ candidate: Candidate }> = ({
             {candidate.category || "Candidate"}
           </div>
           <h1 className="text-2xl md:text-5xl font-bold truncate px-2">
-            {candidate.name}
+            {displayName(candidate)}
           </h1>
+          {candidate.profile?.hometown && (
+            <div className="text-sm md:text-lg opacity-70">
+              {candidate.profile.hometown}
+            </div>
+          )}
         </div>
         <div className="text-lg md:text-xl font-mono opacity-70">
           Current Score: {(candidate.totalPercentage || 0).toFixed(2)}%
@@ -73,87 +111,208 @@ const CandidatePreview: React.FC<{ candidate: Candidate }> = ({
 };
 
 interface ControlPanelProps {
+  // The program: what the screens show
   candidates: Candidate[];
   currentIndex: number;
-  setIndex: (index: number, candidates?: Candidate[]) => void;
   loading: boolean;
   error: string | null;
-  refresh: (sheetName?: string) => Promise<Candidate[]>;
+  refresh: () => void;
   isIdle: boolean;
-  toggleIdle: (state: boolean) => void;
   categories: string[];
+  // Computed category merging several sheets, listed among the categories
+  overallCategory?: string | null;
   selectedCategory: string;
-  setCategory: (category: string, candidates?: Candidate[]) => void;
   showJudgeScores?: boolean;
   setShowJudgeScores?: (v: boolean) => void;
+  displayMode: DisplayMode;
+  // Candidate, category, screen mode and idle are cued here, then taken on air
+  preview: Preview;
+  cue: (changes: Partial<ProgramCue> | null) => void;
+  take: (transition: Transition) => void;
+  overlays: OverlayVisibility;
+  setOverlay: (overlay: OverlayName, visible: boolean) => void;
+  slideshow: SlideshowStatus | null;
+  startSlideshow: (settings: SlideshowSettings) => void;
+  setSlideshowPaused: (paused: boolean) => void;
+  stopSlideshow: () => void;
+  reveal: RevealState | null;
+  startReveal: () => void;
+  stepReveal: (step: 1 | -1) => void;
+  endReveal: () => void;
+  announcementPreview: AnnouncementPreview | null;
+  joinControllers: () => void;
+  startAnnouncement: (category: string, topN: number, division?: string) => void;
+  stepAnnouncement: (step: 1 | -1) => void;
+  endAnnouncement: () => void;
+  sourceLabel: string | null;
+  loadLocalFiles: (files: File[]) => Promise<void>;
+  resetSource: () => void;
+  startNewShow: () => void;
+  switchToJudgeTablets: () => void;
+  judgeTablets: boolean;
+  lockedCandidates: string[];
+  setCandidateLock: (candidate: string, locked: boolean) => void;
+  actionHistory: ActionLogEntry[];
+  undo: () => void;
+  screens: ScreenRoute[];
+  setScreenRoute: (screen: string, content: ScreenContent) => void;
+  theme: Theme;
+  setTheme: (changes: ThemeChanges) => void;
+  setLogo: (file: File | null) => void;
+  setPhoto: (
+    candidate: Candidate,
+    category: string | null,
+    photo: Blob | null,
+  ) => Promise<void>;
+  idlePlaylist: IdlePlaylist;
+  setIdlePlaylist: (items: IdleItem[]) => void;
+  addIdleImage: (file: File) => void;
+  // Only set when the server requires a controller PIN
+  logout?: () => void;
+  connection: Connection;
+  // The last control the server refused, and why
+  refusal: ProtocolError | null;
+  dismissRefusal: () => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   candidates,
   currentIndex,
-  setIndex,
   loading,
   error,
   refresh,
   isIdle,
-  toggleIdle,
   categories,
+  overallCategory,
   selectedCategory,
-  setCategory,
   showJudgeScores,
   setShowJudgeScores,
+  displayMode,
+  preview,
+  cue,
+  take,
+  overlays,
+  setOverlay,
+  slideshow,
+  startSlideshow,
+  setSlideshowPaused,
+  stopSlideshow,
+  reveal,
+  startReveal,
+  stepReveal,
+  endReveal,
+  announcementPreview,
+  joinControllers,
+  startAnnouncement,
+  stepAnnouncement,
+  endAnnouncement,
+  sourceLabel,
+  loadLocalFiles,
+  resetSource,
+  startNewShow,
+  switchToJudgeTablets,
+  judgeTablets,
+  lockedCandidates,
+  setCandidateLock,
+  actionHistory,
+  undo,
+  screens,
+  setScreenRoute,
+  theme,
+  setTheme,
+  setLogo,
+  setPhoto,
+  idlePlaylist,
+  setIdlePlaylist,
+  addIdleImage,
+  logout,
+  connection,
+  refusal,
+  dismissRefusal,
 }) => {
   const [selectedFilterCategory, setSelectedFilterCategory] =
     React.useState<string>("All");
+  const [editingPhoto, setEditingPhoto] = useState(false);
 
-  const handleCategoryChange = async (category: string) => {
-    // Fetch new data for the selected category/sheet
-    const newCandidates = await refresh(category);
-    setCategory(category, newCandidates);
+  const handleNewShow = () => {
+    if (
+      window.confirm(
+        "Start a new show? This clears the saved show, including all judge tablet scores.",
+      )
+    ) {
+      startNewShow();
+    }
   };
 
-  // Auto-select first category if none selected
-  useEffect(() => {
-    if (!selectedCategory && categories.length > 0) {
-      handleCategoryChange(categories[0]);
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset so picking the same file again still triggers a reload
+    e.target.value = "";
+    if (files.length > 0) {
+      await loadLocalFiles(files);
     }
-  }, [categories, selectedCategory]);
+  };
 
-  // Auto-scroll to current candidate in list
+  // Receive controller-only updates such as the hidden announcement order
   useEffect(() => {
-    const el = document.getElementById(`candidate-row-${currentIndex}`);
+    joinControllers();
+  }, [joinControllers]);
+
+  // Auto-scroll to the cued candidate in list
+  useEffect(() => {
+    const el = document.getElementById(`candidate-row-${preview.index}`);
     if (el) {
       el.scrollIntoView({ behavior: "smooth", block: "center" });
     }
-  }, [currentIndex]);
-
-  const handleCandidateClick = async (index: number) => {
-    // User wants fetch on click.
-    const newCandidates = await refresh(selectedCategory);
-    setIndex(index, newCandidates);
-  };
+  }, [preview.index]);
 
   // Show loading state
   if (loading && candidates.length === 0 && categories.length === 0)
-    return <div className="p-8 text-white">Loading data...</div>;
+    return (
+      <div className="p-8 text-white space-y-4">
+        <ControllerConnectionStatus connection={connection} />
+        <div>Loading data...</div>
+      </div>
+    );
 
-  // Show error state
+  // Show error state (still allow loading a local file to recover)
   if (error && candidates.length === 0)
-    return <div className="p-8 text-red-500">Error: {error}</div>;
+    return (
+      <div className="p-8 text-red-500 space-y-4">
+        <div>Error: {error}</div>
+        <label className="inline-block text-xs bg-gray-800 text-white p-3 rounded hover:bg-gray-700 cursor-pointer">
+          Load Local CSV/XLSX
+          <input
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            multiple
+            className="hidden"
+            onChange={handleFilesSelected}
+          />
+        </label>
+      </div>
+    );
 
   // Show waiting state if categories loaded but no category selected yet
   if (candidates.length === 0 && categories.length > 0 && !selectedCategory)
     return <div className="p-8 text-white">Selecting category...</div>;
 
   const currentCandidate = candidates[currentIndex];
+  // The list and the preview pane follow the cue
+  const previewCandidates = preview.candidates;
+  const previewCandidate = previewCandidates[preview.index];
+  // The program's candidate is only in the list when its category is cued
+  const liveIndex = preview.category === selectedCategory ? currentIndex : -1;
 
   // Filter Logic for candidates within selected category
   const filterCategories = [
     "All",
-    ...Array.from(new Set(candidates.map((c) => c.category || "General"))),
+    ...Array.from(
+      new Set(previewCandidates.map((c) => c.category || "General")),
+    ),
   ];
 
-  const filteredCandidates = candidates
+  const filteredCandidates = previewCandidates
     .map((c, i) => ({ ...c, originalIndex: i }))
     .filter(
       (c) =>
@@ -165,25 +324,54 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     <div className="h-screen w-screen overflow-hidden bg-gray-900 text-white flex flex-col-reverse md:flex-row">
       {/* Sidebar / List - Bottom on Mobile, Left on Desktop */}
       <div className="w-full md:w-1/3 border-t md:border-t-0 md:border-r border-gray-800 flex flex-col h-1/2 md:h-full bg-gray-900">
-        <div className="p-4 border-b border-gray-800 bg-gray-900 sticky top-0 z-10 space-y-3">
+        {/* Kept out of the scrolling header so an outage is always in view */}
+        <div className="px-4 pt-4 shrink-0 space-y-2">
+          <ControllerConnectionStatus connection={connection} />
+          {refusal && (
+            <div className="flex items-start space-x-2 text-xs font-bold px-3 py-2 rounded bg-red-700 text-white">
+              <span className="flex-1">
+                {refusal.event} refused: {refusal.message}
+              </span>
+              <button
+                onClick={dismissRefusal}
+                title="Dismiss"
+                className="opacity-70 hover:opacity-100"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+        </div>
+        {/* Capped so the panels below never squeeze the candidate list out */}
+        <div className="px-4 pt-3 pb-4 border-b border-gray-800 bg-gray-900 sticky top-0 z-10 space-y-3 shrink-0 max-h-1/2 overflow-y-auto">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-bold text-pageant-gold">Candidates</h2>
 
             {/* Idle Toggle */}
             <button
-              onClick={() => toggleIdle(!isIdle)}
+              onClick={() => cue({ isIdle: !preview.isIdle })}
               className={`px-3 py-1 rounded text-xs font-bold uppercase tracking-wider transition-colors border
                                 ${
                                   isIdle
                                     ? "bg-red-600 border-red-600 text-white animate-pulse"
-                                    : "bg-transparent border-gray-600 text-gray-400 hover:border-gray-400 hover:text-white"
+                                    : preview.isIdle
+                                      ? "bg-transparent border-green-500 text-green-400"
+                                      : "bg-transparent border-gray-600 text-gray-400 hover:border-gray-400 hover:text-white"
                                 }
                             `}
             >
-              {isIdle ? "ON AIR: IDLE" : "SET IDLE"}
+              {isIdle
+                ? preview.isIdle
+                  ? "ON AIR: IDLE"
+                  : "CUED: END IDLE"
+                : preview.isIdle
+                  ? "CUED: IDLE"
+                  : "SET IDLE"}
             </button>
 
-            {/* Show Judges Toggle */}
+            {/* Show Judges Toggle. Acts on air without a cue: it reveals the
+                scores of the candidate already on screen, like the score
+                reveal, and a TAKE to another candidate hides them again */}
             {typeof showJudgeScores !== "undefined" &&
               typeof setShowJudgeScores === "function" && (
                 <button
@@ -201,6 +389,59 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               )}
           </div>
 
+          {/* Main Screen Mode */}
+          <div className="flex space-x-2">
+            {(["spotlight", "leaderboard"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => cue({ displayMode: mode })}
+                className={`flex-1 px-3 py-1 rounded text-xs font-bold uppercase tracking-wider transition-colors border
+                                ${
+                                  preview.displayMode === mode
+                                    ? "bg-pageant-gold text-black border-pageant-gold"
+                                    : "bg-transparent border-gray-600 text-gray-400 hover:border-gray-400 hover:text-white"
+                                }
+                            `}
+              >
+                {mode === "spotlight" ? "Screen: Spotlight" : "Screen: Leaderboard"}
+              </button>
+            ))}
+          </div>
+
+          {/* Broadcast Overlays */}
+          <OverlayControls overlays={overlays} setOverlay={setOverlay} />
+
+          {/* Named Screens */}
+          <ScreenRouting screens={screens} setScreenRoute={setScreenRoute} />
+
+          {/* Event Theme */}
+          <ThemeSettings theme={theme} setTheme={setTheme} setLogo={setLogo} />
+
+          {/* Idle Screen Playlist */}
+          <IdlePlaylistEditor
+            playlist={idlePlaylist}
+            setIdlePlaylist={setIdlePlaylist}
+            addIdleImage={addIdleImage}
+          />
+
+          {/* Winner Announcement */}
+          <AnnouncementSetup
+            candidates={candidates}
+            selectedCategory={selectedCategory}
+            overallCategory={overallCategory}
+            active={announcementPreview !== null}
+            onStart={startAnnouncement}
+            onEnd={endAnnouncement}
+          />
+
+          {/* Auto-Advance (Parade) */}
+          <SlideshowControls
+            slideshow={slideshow}
+            onStart={startSlideshow}
+            onPause={setSlideshowPaused}
+            onStop={stopSlideshow}
+          />
+
           {/* Category/Sheet Selector */}
           <div className="space-y-1">
             <label className="text-xs text-gray-400 uppercase tracking-wider font-semibold">
@@ -208,28 +449,63 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             </label>
             <select
               title="Select Category"
-              value={selectedCategory}
-              onChange={(e) => handleCategoryChange(e.target.value)}
+              value={categories.length === 0 ? "" : preview.category}
+              disabled={categories.length === 0}
+              onChange={(e) => cue({ category: e.target.value })}
               className="w-full bg-gray-800 text-white border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-pageant-gold focus:border-transparent cursor-pointer hover:bg-gray-700 transition-colors"
             >
               {categories.length === 0 ? (
-                <option value="Sheet1">Sheet1</option>
+                <option value="" disabled>
+                  No categories loaded
+                </option>
               ) : (
                 categories.map((cat) => (
                   <option key={cat} value={cat}>
-                    {cat}
+                    {cat === overallCategory ? `${cat} (all sheets)` : cat}
                   </option>
                 ))
               )}
             </select>
           </div>
 
+          {/* Score Source */}
+          <div className="flex items-center space-x-2 text-xs">
+            <span className="text-gray-400 uppercase tracking-wider font-semibold">
+              Source
+            </span>
+            <span className="flex-1 truncate text-gray-300">
+              {sourceLabel || "None"}
+            </span>
+            <label className="bg-gray-800 px-3 py-1 rounded hover:bg-gray-700 cursor-pointer whitespace-nowrap">
+              Load File
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                multiple
+                className="hidden"
+                onChange={handleFilesSelected}
+              />
+            </label>
+            <button
+              onClick={resetSource}
+              className="bg-gray-800 px-3 py-1 rounded hover:bg-gray-700 whitespace-nowrap"
+            >
+              Use Sheet
+            </button>
+            <button
+              onClick={switchToJudgeTablets}
+              className={`px-3 py-1 rounded whitespace-nowrap ${judgeTablets ? "bg-pageant-gold text-black font-bold" : "bg-gray-800 hover:bg-gray-700"}`}
+            >
+              Tablets
+            </button>
+          </div>
+
           <div className="flex justify-between items-center text-xs text-gray-500">
             <span>
-              {filteredCandidates.length} / {candidates.length} Shown
+              {filteredCandidates.length} / {previewCandidates.length} Shown
             </span>
             <span className="text-pageant-gold font-semibold">
-              {selectedCategory}
+              {preview.category}
             </span>
           </div>
 
@@ -252,24 +528,48 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             ))}
           </div>
 
-          <button
-            onClick={() => refresh(selectedCategory)}
-            className="text-xs bg-gray-800 p-3 rounded hover:bg-gray-700 w-full flex justify-center items-center space-x-2 touch-manipulation"
-          >
-            <span>Force Refresh Data</span>
-            {loading && (
-              <span className="animate-spin h-3 w-3 border-2 border-white border-t-transparent rounded-full"></span>
+          <div className="flex space-x-2">
+            <button
+              onClick={refresh}
+              className="text-xs bg-gray-800 p-3 rounded hover:bg-gray-700 flex-1 flex justify-center items-center space-x-2 touch-manipulation"
+            >
+              <span>Force Refresh Data</span>
+              {loading && (
+                <span className="animate-spin h-3 w-3 border-2 border-white border-t-transparent rounded-full"></span>
+              )}
+            </button>
+            <a
+              href="/report"
+              target="_blank"
+              rel="noreferrer"
+              className="text-xs bg-gray-800 p-3 rounded hover:bg-gray-700 touch-manipulation"
+            >
+              Report
+            </a>
+            <button
+              onClick={handleNewShow}
+              className="text-xs bg-gray-800 p-3 rounded hover:bg-red-700 touch-manipulation"
+            >
+              New Show
+            </button>
+            {logout && (
+              <button
+                onClick={logout}
+                className="text-xs bg-gray-800 p-3 rounded hover:bg-gray-700 touch-manipulation"
+              >
+                Log Out
+              </button>
             )}
-          </button>
+          </div>
         </div>
         <div className="overflow-y-auto flex-1 p-2 md:p-0">
           {filteredCandidates.map((c) => (
             <div
               key={c.originalIndex}
               id={`candidate-row-${c.originalIndex}`}
-              onClick={() => handleCandidateClick(c.originalIndex)}
+              onClick={() => cue({ index: c.originalIndex })}
               className={`p-4 border-b border-gray-800 cursor-pointer hover:bg-gray-800 transition-colors flex items-center space-x-3 active:bg-gray-700
-                                ${currentIndex === c.originalIndex ? "bg-pageant-purple text-white border-l-4 border-l-pageant-gold" : "text-gray-300"}
+                                ${preview.index === c.originalIndex ? "bg-pageant-purple text-white border-l-4 border-l-pageant-gold" : "text-gray-300"}
                             `}
             >
               <div className="font-mono text-sm opacity-50 w-6">
@@ -277,14 +577,40 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               </div>
               <CandidateThumbnail photoUrl={c.photoUrl} name={c.name} />
               <div className="flex-1 min-w-0">
-                <div className="font-bold truncate">{c.name}</div>
+                <div className="font-bold truncate">
+                  {displayName(c)}
+                  {c.profile?.hometown && (
+                    <span className="font-normal opacity-70">
+                      {" "}
+                      — {c.profile.hometown}
+                    </span>
+                  )}
+                </div>
                 {c.category && (
                   <div className="text-xs opacity-70 uppercase truncate">
                     {c.category}
                   </div>
                 )}
               </div>
-              {currentIndex === c.originalIndex && (
+              {c.tie && (
+                <div
+                  title={`Tied with ${c.tie.with.map((t) => t.name).join(", ")}`}
+                  className={`text-xs px-2 py-1 rounded font-bold ${c.tie.resolved ? "bg-yellow-900 text-yellow-300" : "bg-red-700 text-white"}`}
+                >
+                  TIE #{c.rank}
+                </div>
+              )}
+              {judgeTablets && lockedCandidates.includes(c.name) && (
+                <div className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded font-bold">
+                  CLOSED
+                </div>
+              )}
+              {preview.pending && preview.index === c.originalIndex && (
+                <div className="text-xs bg-green-600 text-white px-2 py-1 rounded font-bold">
+                  PVW
+                </div>
+              )}
+              {liveIndex === c.originalIndex && (
                 <div className="text-xs bg-pageant-gold text-black px-2 py-1 rounded font-bold">
                   LIVE
                 </div>
@@ -298,18 +624,91 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       <div className="flex-1 flex flex-col h-1/2 md:h-full overflow-hidden bg-black relative">
         {/* Live Preview (Simulated) */}
         <div className="flex-1 relative flex items-center justify-center bg-gray-900 border-b border-gray-800 m-4 md:m-8 rounded-xl overflow-hidden shadow-2xl border border-gray-700">
-          {currentCandidate ? (
-            <CandidatePreview candidate={currentCandidate} />
+          {announcementPreview ? (
+            <AnnouncementPreviewPane preview={announcementPreview} />
+          ) : preview.isIdle ? (
+            <div className="text-gray-500 uppercase tracking-widest">
+              Idle Screen
+            </div>
+          ) : preview.displayMode === "leaderboard" ? (
+            <div className="text-center space-y-2">
+              <div className="text-pageant-gold uppercase tracking-widest text-sm font-bold">
+                Leaderboard
+              </div>
+              <div className="text-2xl md:text-4xl font-bold">
+                {preview.category}
+              </div>
+            </div>
+          ) : previewCandidate ? (
+            <>
+              <CandidatePreview candidate={previewCandidate} />
+              <button
+                onClick={() => setEditingPhoto(true)}
+                className="absolute top-3 right-3 z-20 text-xs bg-black/60 border border-gray-600 hover:border-gray-400 text-white px-3 py-1 rounded font-bold uppercase tracking-wider"
+              >
+                Photo
+              </button>
+            </>
           ) : (
             <div className="text-gray-500">No Candidate Selected</div>
           )}
         </div>
 
+        {editingPhoto && previewCandidate && (
+          <PhotoEditor
+            candidate={previewCandidate}
+            category={preview.category}
+            setPhoto={setPhoto}
+            onClose={() => setEditingPhoto(false)}
+          />
+        )}
+
+        {/* Step-by-step score reveal of the candidate on air */}
+        <RevealControls
+          reveal={reveal}
+          programName={
+            !isIdle && displayMode === "spotlight" && candidates[currentIndex]
+              ? displayName(candidates[currentIndex])
+              : undefined
+          }
+          startReveal={startReveal}
+          stepReveal={stepReveal}
+          endReveal={endReveal}
+        />
+
+        {/* Program / Preview and TAKE */}
+        <TakeBar
+          program={{
+            category: selectedCategory,
+            index: currentIndex,
+            displayMode,
+            isIdle,
+          }}
+          programCandidates={candidates}
+          preview={preview}
+          onTake={take}
+          onDropCue={() => cue(null)}
+        />
+
+        {/* Tied Totals */}
+        <TieWarnings candidates={previewCandidates} />
+
+        {/* Action History */}
+        <ActionHistory entries={actionHistory} onUndo={undo} />
+
         {/* Controls Bar */}
         <div className="h-auto md:h-24 bg-gray-800 border-t border-gray-700 p-4 flex items-center justify-between px-4 md:px-8 shrink-0">
           <button
-            onClick={() => setIndex(Math.max(0, currentIndex - 1))}
-            disabled={currentIndex === 0}
+            onClick={() =>
+              announcementPreview
+                ? stepAnnouncement(-1)
+                : cue({ index: Math.max(0, preview.index - 1) })
+            }
+            disabled={
+              announcementPreview
+                ? announcementPreview.revealed === 0
+                : preview.index === 0
+            }
             className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-4 md:px-6 py-3 rounded-lg font-bold flex items-center space-x-2 transition-transform active:scale-95 touch-manipulation flex-1 md:flex-none justify-center mr-2 md:mr-0"
           >
             <svg
@@ -327,17 +726,45 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <span className="hidden md:inline">PREV</span>
           </button>
 
-          <div className="text-center hidden md:block">
+          <div className="text-center hidden md:block space-y-1">
             <div className="text-pageant-gold font-bold text-sm">
-              CONTROLLER
+              {announcementPreview ? "ANNOUNCEMENT" : "CONTROLLER"}
             </div>
+            {/* Close tablet scoring for the candidate on stage */}
+            {judgeTablets && currentCandidate && !announcementPreview && (
+              <button
+                onClick={() =>
+                  setCandidateLock(
+                    currentCandidate.name,
+                    !lockedCandidates.includes(currentCandidate.name),
+                  )
+                }
+                className="text-xs px-3 py-1 rounded border border-gray-600 hover:border-gray-400 font-bold uppercase tracking-wider"
+              >
+                {lockedCandidates.includes(currentCandidate.name)
+                  ? "Reopen Scoring"
+                  : "Close Scoring"}
+              </button>
+            )}
           </div>
 
           <button
             onClick={() =>
-              setIndex(Math.min(candidates.length - 1, currentIndex + 1))
+              announcementPreview
+                ? stepAnnouncement(1)
+                : cue({
+                    index: Math.min(
+                      previewCandidates.length - 1,
+                      preview.index + 1,
+                    ),
+                  })
+            }
+            disabled={
+              announcementPreview
+                ? announcementPreview.revealed >=
+                  announcementPreview.placements.length
+                : preview.index >= previewCandidates.length - 1
             }
-            disabled={currentIndex >= candidates.length - 1}
             className="bg-pageant-purple hover:bg-indigo-600 disabled:opacity-50 text-white px-4 md:px-6 py-3 rounded-lg font-bold flex items-center space-x-2 transition-transform active:scale-95 shadow-lg border border-white/10 touch-manipulation flex-1 md:flex-none justify-center ml-2 md:ml-0"
           >
             <span>NEXT</span>
@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+import type { ControllerLoginResult } from "../types";
+
+interface ControllerLoginProps {
+  // False while the server hasn't said whether a PIN is needed yet
+  ready: boolean;
+  login: (pin: string) => Promise<ControllerLoginResult>;
+  title?: string;
+}
+
+// Gate in front of the control panel when the server has a CONTROLLER_PIN
+// (and in front of a judge tablet when the judge needs a PIN)
+export const ControllerLogin: React.FC<ControllerLoginProps> = ({
+  ready,
+  login,
+  title = "Controller Login",
+}) => {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    const result = await login(pin);
+    setSubmitting(false);
+    if (!result.ok) {
+      setError(result.error || "Login failed.");
+      setPin("");
+    }
+  };
+
+  return (
+    <div className="h-screen w-screen bg-gray-900 text-white flex items-center justify-center p-4">
+      {!ready ? (
+        <div className="text-gray-400">Connecting to server...</div>
+      ) : (
+        <form onSubmit={handleSubmit} className="w-full max-w-xs space-y-4">
+          <h1 className="text-xl font-bold text-pageant-gold text-center">
+            {title}
+          </h1>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            required
+            placeholder="PIN"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-2xl font-mono text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-pageant-gold"
+          />
+          <button
+            type="submit"
+            disabled={submitting || !pin}
+            className="w-full bg-pageant-purple hover:bg-indigo-600 disabled:opacity-50 text-white py-3 rounded-lg font-bold uppercase tracking-wider touch-manipulation"
+          >
+            Unlock
+          </button>
+          {error && (
+            <div className="text-center text-sm font-semibold text-red-400">
+              {error}
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
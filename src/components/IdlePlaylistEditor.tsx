@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import type { IdleItem, IdleItemType, IdlePlaylist } from "../types";
+
+const TYPE_LABELS: Record<IdleItemType, string> = {
+  image: "Image",
+  text: "Text",
+  countdown: "Countdown",
+  "up-next": "Up Next",
+};
+
+const newId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Starting point for a new item of each kind (images come from an upload)
+const newItem = (type: Exclude<IdleItemType, "image">): IdleItem => {
+  const base = { id: newId(), seconds: 10 };
+  switch (type) {
+    case "text":
+      return { ...base, type, title: "Intermission", text: "Back in 10 minutes" };
+    case "countdown":
+      return {
+        ...base,
+        type,
+        title: "We'll be back in",
+        until: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+      };
+    case "up-next":
+      return { ...base, type };
+  }
+};
+
+// "HH:MM" in local time, for the countdown's time input
+const toTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+};
+
+// The next time the clock reads "HH:MM": today, or tomorrow once it has passed
+const fromTimeInput = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() < Date.now()) date.setDate(date.getDate() + 1);
+  return date.toISOString();
+};
+
+const inputClass =
+  "flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-pageant-gold";
+
+interface IdlePlaylistEditorProps {
+  playlist: IdlePlaylist;
+  setIdlePlaylist: (items: IdleItem[]) => void;
+  addIdleImage: (file: File) => void;
+}
+
+// Collapsible editor for the slides the idle screen rotates through. Like the
+// theme, edits are collected in a draft and sent on Save; an image upload is
+// added straight away.
+export const IdlePlaylistEditor: React.FC<IdlePlaylistEditorProps> = ({
+  playlist,
+  setIdlePlaylist,
+  addIdleImage,
+}) => {
+  const [draft, setDraft] = useState(playlist.items);
+  // Server items the draft started from, to tell unsaved edits from changes
+  // made elsewhere
+  const [base, setBase] = useState(playlist.items);
+  // Set when another controller changed the playlist under unsaved edits
+  const [stale, setStale] = useState(false);
+
+  // Follow changes made from other controllers (and uploads). The playlist is
+  // also sent each time the slide moves on, as a new but equal items array,
+  // so compare the content.
+  const savedItems = JSON.stringify(playlist.items);
+  if (savedItems !== JSON.stringify(base)) {
+    const draftItems = JSON.stringify(draft);
+    if (draftItems === JSON.stringify(base) || draftItems === savedItems) {
+      // No unsaved edits, or they were just saved
+      setDraft(playlist.items);
+      setStale(false);
+    } else {
+      // Keep the edits: new slides (an image upload) are added to them, and
+      // any other change is flagged
+      const known = new Set(base.map((item) => item.id));
+      const added = playlist.items.filter((item) => !known.has(item.id));
+      const others = playlist.items.filter((item) => known.has(item.id));
+      setDraft([...draft, ...added]);
+      if (JSON.stringify(others) !== JSON.stringify(base)) setStale(true);
+    }
+    setBase(playlist.items);
+  }
+
+  const changed = JSON.stringify(draft) !== savedItems;
+  const showing = playlist.items[playlist.current]?.id;
+
+  const update = (index: number, changes: Partial<IdleItem>) =>
+    setDraft(
+      draft.map((item, i) =>
+        i === index ? ({ ...item, ...changes } as IdleItem) : item,
+      ),
+    );
+
+  const move = (index: number, by: number) => {
+    const next = [...draft];
+    const [item] = next.splice(index, 1);
+    next.splice(index + by, 0, item);
+    setDraft(next);
+  };
+
+  const handleImageSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still uploads it
+    e.target.value = "";
+    if (file) addIdleImage(file);
+  };
+
+  return (
+    <details className="text-xs">
+      <summary className="text-gray-400 uppercase tracking-wider font-semibold cursor-pointer select-none">
+        Idle Playlist ({playlist.items.length})
+      </summary>
+      <div className="space-y-2 pt-2">
+        {draft.length === 0 && (
+          <div className="text-gray-500">Empty: the idle screen shows the logo.</div>
+        )}
+        {draft.map((item, i) => (
+          <div
+            key={item.id}
+            className={`space-y-1 p-2 rounded border ${item.id === showing ? "border-pageant-gold" : "border-gray-700"}`}
+          >
+            <div className="flex items-center space-x-2">
+              <span className="flex-1 font-bold text-gray-300">
+                {TYPE_LABELS[item.type]}
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={item.seconds}
+                title="Seconds on screen"
+                onChange={(e) =>
+                  update(i, { seconds: Math.max(1, Number(e.target.value) || 1) })
+                }
+                className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+              />
+              <span className="text-gray-500">s</span>
+              <button
+                onClick={() => move(i, -1)}
+                disabled={i === 0}
+                className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(i, 1)}
+                disabled={i === draft.length - 1}
+                className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+                className="px-1 text-gray-400 hover:text-red-400"
+              >
+                ✕
+              </button>
+            </div>
+            {item.type === "image" && (
+              <input
+                type="text"
+                value={item.caption ?? ""}
+                placeholder="Caption (optional)"
+                onChange={(e) => update(i, { caption: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            )}
+            {(item.type === "text" || item.type === "countdown") && (
+              <input
+                type="text"
+                value={item.title}
+                placeholder="Title"
+                onChange={(e) => update(i, { title: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            )}
+            {item.type === "countdown" && (
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-400">Until</span>
+                <input
+                  type="time"
+                  value={toTimeInput(item.until)}
+                  onChange={(e) =>
+                    e.target.value && update(i, { until: fromTimeInput(e.target.value) })
+                  }
+                  className={inputClass}
+                />
+              </label>
+            )}
+            {item.type === "up-next" && (
+              <input
+                type="text"
+                value={item.category ?? ""}
+                placeholder="Category (default: the next one)"
+                onChange={(e) =>
+                  update(i, { category: e.target.value || undefined })
+                }
+                className={`${inputClass} w-full`}
+              />
+            )}
+            {(item.type === "text" || item.type === "up-next") && (
+              <input
+                type="text"
+                value={item.text ?? ""}
+                placeholder="Text (optional)"
+                onChange={(e) => update(i, { text: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            )}
+          </div>
+        ))}
+        <div className="flex space-x-2">
+          {(["text", "countdown", "up-next"] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => setDraft([...draft, newItem(type)])}
+              className="flex-1 bg-gray-800 px-2 py-1 rounded hover:bg-gray-700 whitespace-nowrap"
+            >
+              + {TYPE_LABELS[type]}
+            </button>
+          ))}
+          <label className="flex-1 text-center bg-gray-800 px-2 py-1 rounded hover:bg-gray-700 cursor-pointer whitespace-nowrap">
+            + Image
+            <input
+              type="file"
+              accept=".png,.jpg,.jpeg,.gif,.webp,.svg"
+              className="hidden"
+              onChange={handleImageSelected}
+            />
+          </label>
+        </div>
+        {stale && (
+          <div className="p-2 rounded bg-yellow-900/50 text-yellow-200">
+            Another controller changed the playlist. Save replaces their
+            changes with yours; Revert loads theirs and drops yours.
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <button
+            onClick={() => {
+              setIdlePlaylist(draft);
+              setStale(false);
+            }}
+            disabled={!changed}
+            className="flex-1 bg-pageant-purple hover:bg-indigo-600 disabled:opacity-50 text-white py-1 rounded font-bold uppercase tracking-wider"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => {
+              setDraft(playlist.items);
+              setStale(false);
+            }}
+            disabled={!changed}
+            className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 px-3 py-1 rounded"
+          >
+            Revert
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -1,20 +1,134 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import Logo from "../images/Logo.png";
+import type { IdleItem, IdlePlaylist } from "../types";
+import { SERVER_URL } from "../lib/serverUrl";
+
+interface IdleScreenProps {
+  // Uploaded event logo; the bundled logo when absent
+  logoUrl?: string | null;
+  eventTitle?: string;
+  // Slides rotated by the server; the logo alone when empty
+  playlist?: IdlePlaylist;
+  // Category after the one on air, for "up next" slides without their own
+  nextCategory?: string | null;
+}
+
+// "12:05", or "1:02:05" from an hour up
+const formatTimeLeft = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+// Ticks every second on this screen; the target time comes from the server
+const Countdown: React.FC<{ until: string }> = ({ until }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return (
+    <div className="text-7xl md:text-[10rem] font-mono font-bold text-white drop-shadow-2xl">
+      {formatTimeLeft(new Date(until).getTime() - now)}
+    </div>
+  );
+};
+
+// Everything but images sits on the gradient, under a small logo
+const Slide: React.FC<{
+  item: IdleItem;
+  logo: string;
+  nextCategory?: string | null;
+}> = ({ item, logo, nextCategory }) => {
+  if (item.type === "image") {
+    return (
+      <div className="h-full w-full flex flex-col items-center justify-center p-6">
+        <img
+          src={`${SERVER_URL}${item.image}`}
+          alt=""
+          className="max-h-full max-w-full object-contain min-h-0"
+        />
+        {item.caption && (
+          <div className="pt-4 text-2xl md:text-4xl font-bold text-white">
+            {item.caption}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full w-full flex flex-col items-center justify-center text-center p-6 space-y-6">
+      <img src={logo} alt="" className="h-24 md:h-32 object-contain" />
+      {item.type === "up-next" ? (
+        <>
+          <div className="text-xl md:text-3xl uppercase tracking-[0.4em] text-white/80">
+            Up Next
+          </div>
+          <div className="text-5xl md:text-8xl font-bold uppercase text-pageant-gold drop-shadow-2xl">
+            {item.category || nextCategory || "Coming Up"}
+          </div>
+          {item.text && (
+            <div className="text-2xl md:text-4xl text-white">{item.text}</div>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="text-5xl md:text-8xl font-bold uppercase text-pageant-gold drop-shadow-2xl">
+            {item.title}
+          </div>
+          {item.type === "countdown" ? (
+            <Countdown until={item.until} />
+          ) : (
+            item.text && (
+              <div className="text-2xl md:text-5xl text-white">{item.text}</div>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export const IdleScreen: React.FC<IdleScreenProps> = ({
+  logoUrl,
+  eventTitle,
+  playlist,
+  nextCategory,
+}) => {
+  const item = playlist?.items[playlist.current];
 
-export const IdleScreen: React.FC = () => {
   return (
     <div className="h-screen w-screen bg-black flex items-center justify-center overflow-hidden relative">
       {/* Animated Background Gradient */}
       <div className="absolute inset-0 ethereal-gradient opacity-30 animate-pulse" />
 
-      {/* Centered glowing logo only */}
-      <div className="relative z-10 text-center p-6 animate-fade-in-up grid place-items-center h-full">
-        <div className="logo-badge-wrapper">
-          <div className="relative z-10 logo-badge">
-            <img src={Logo} alt="Event Logo" className="logo-image w-150" />
+      {item ? (
+        // Keyed by item, so each slide fades in
+        <div key={item.id} className="relative z-10 h-full w-full program-fade">
+          <Slide item={item} logo={logoUrl || Logo} nextCategory={nextCategory} />
+        </div>
+      ) : (
+        /* Centered glowing logo, with the event title under it */
+        <div className="relative z-10 text-center p-6 animate-fade-in-up grid place-items-center h-full">
+          <div className="logo-badge-wrapper">
+            <div className="relative z-10 logo-badge">
+              <img
+                src={logoUrl || Logo}
+                alt="Event Logo"
+                className="logo-image w-150"
+              />
+            </div>
           </div>
+          {eventTitle && (
+            <h1 className="absolute bottom-10 inset-x-0 text-2xl md:text-4xl font-bold uppercase tracking-[0.2em] text-pageant-gold">
+              {eventTitle}
+            </h1>
+          )}
         </div>
-      </div>
+      )}
     </div>
   );
 };
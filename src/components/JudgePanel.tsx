@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from "react";
+import type {
+  Candidate,
+  ControllerLoginResult,
+  JudgeOwnScores,
+  JudgeSubmission,
+  JudgeSubmitResult,
+} from "../types";
+import { displayName } from "../lib/roster";
+import { ControllerLogin } from "./ControllerLogin";
+
+// Key of the single input used when the category has no criteria
+const SINGLE_SCORE = "__score";
+
+export interface JudgePanelProps {
+  judgeId: number;
+  candidate: Candidate | undefined;
+  category: string;
+  isIdle: boolean;
+  judgeTablets: boolean;
+  locked: boolean;
+  ownScores: JudgeOwnScores | null;
+  joinJudge: (judgeId: number, pin?: string) => Promise<ControllerLoginResult>;
+  submitJudgeScores: (submission: JudgeSubmission) => Promise<JudgeSubmitResult>;
+}
+
+// Judge tablet: scores the candidate currently on stage
+export const JudgePanel: React.FC<JudgePanelProps> = ({
+  judgeId,
+  candidate,
+  category,
+  isIdle,
+  judgeTablets,
+  locked,
+  ownScores,
+  joinJudge,
+  submitJudgeScores,
+}) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  // Result of logging in as this judge; null until the server has answered
+  const [login, setLogin] = useState<ControllerLoginResult | null>(null);
+  const [status, setStatus] = useState<JudgeSubmitResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const criteria = candidate?.criteria?.map((c) => c.name) ?? [];
+  const fields = criteria.length > 0 ? criteria : [SINGLE_SCORE];
+  const saved =
+    candidate && ownScores?.category === category
+      ? ownScores.scores[candidate.name]
+      : undefined;
+
+  // Log in as this judge (with the stored PIN, if any), and re-fetch own
+  // scores when the category changes
+  useEffect(() => {
+    if (judgeId < 1) return;
+    let current = true;
+    joinJudge(judgeId).then((result) => {
+      if (current) setLogin(result);
+    });
+    return () => {
+      current = false;
+    };
+  }, [judgeId, category, joinJudge]);
+
+  // Clear the last submit message when the next candidate comes on stage
+  useEffect(() => {
+    setStatus(null);
+  }, [candidate?.name, category]);
+
+  // Prefill with what this judge already submitted for the candidate on stage
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    if (saved?.criteria) {
+      for (const [name, score] of Object.entries(saved.criteria)) {
+        next[name] = String(score);
+      }
+    } else if (saved?.score !== undefined) {
+      next[SINGLE_SCORE] = String(saved.score);
+    }
+    setValues(next);
+  }, [candidate?.name, category, saved]);
+
+  if (!Number.isInteger(judgeId) || judgeId < 1) {
+    return <div className="p-8 text-red-500">Invalid judge number.</div>;
+  }
+
+  if (!login?.ok) {
+    return (
+      <ControllerLogin
+        ready={login !== null}
+        title={`Judge ${judgeId}`}
+        login={async (pin) => {
+          const result = await joinJudge(judgeId, pin);
+          if (result.ok) setLogin(result);
+          return result;
+        }}
+      />
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!candidate) return;
+    setSubmitting(true);
+    const submission: JudgeSubmission = {
+      judgeId,
+      category,
+      candidate: candidate.name,
+    };
+    if (criteria.length > 0) {
+      submission.criteria = Object.fromEntries(
+        criteria.map((name) => [name, Number(values[name])]),
+      );
+    } else {
+      submission.score = Number(values[SINGLE_SCORE]);
+    }
+    setStatus(await submitJudgeScores(submission));
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="h-screen w-screen overflow-y-auto bg-gray-900 text-white flex flex-col">
+      <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+        <h1 className="text-xl font-bold text-pageant-gold">Judge {judgeId}</h1>
+        <span className="text-xs uppercase tracking-wider text-gray-400">
+          {category}
+        </span>
+      </div>
+
+      {!judgeTablets && (
+        <div className="m-4 p-3 rounded bg-yellow-900/50 text-yellow-200 text-sm">
+          Judge tablets are not the active score source. Scores are saved but
+          not shown until the controller switches to tablets.
+        </div>
+      )}
+
+      {isIdle || !candidate ? (
+        <div className="flex-1 flex items-center justify-center text-gray-400">
+          Waiting for the next candidate...
+        </div>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className="flex-1 flex flex-col max-w-xl w-full mx-auto p-4 md:p-8 space-y-6"
+        >
+          <div className="text-center space-y-1">
+            <div className="text-pageant-gold uppercase tracking-widest text-xs font-bold">
+              {candidate.category}
+            </div>
+            <h2 className="text-3xl md:text-5xl font-bold">
+              {displayName(candidate)}
+            </h2>
+          </div>
+
+          {locked && (
+            <div className="p-3 rounded bg-red-900/50 text-red-200 text-sm text-center font-bold uppercase tracking-wider">
+              Scoring closed
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {fields.map((field) => {
+              const weight = candidate.criteria?.find((c) => c.name === field)?.weight;
+              return (
+                <label key={field} className="flex items-center justify-between space-x-4">
+                  <span className="text-lg font-semibold">
+                    {field === SINGLE_SCORE ? "Score" : field}
+                    {weight !== undefined && (
+                      <span className="ml-2 text-sm text-gray-400">
+                        {Math.round(weight)}%
+                      </span>
+                    )}
+                  </span>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    max={100}
+                    step="any"
+                    required
+                    disabled={locked}
+                    value={values[field] ?? ""}
+                    onChange={(e) =>
+                      setValues((prev) => ({ ...prev, [field]: e.target.value }))
+                    }
+                    className="w-32 bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-2xl font-mono text-right focus:outline-none focus:ring-2 focus:ring-pageant-gold disabled:opacity-50"
+                  />
+                </label>
+              );
+            })}
+          </div>
+
+          <button
+            type="submit"
+            disabled={locked || submitting}
+            className="bg-pageant-purple hover:bg-indigo-600 disabled:opacity-50 text-white py-4 rounded-lg font-bold text-lg uppercase tracking-wider touch-manipulation"
+          >
+            {saved ? "Update Scores" : "Submit Scores"}
+          </button>
+
+          {status && (
+            <div
+              className={`text-center text-sm font-semibold ${status.ok ? "text-green-400" : "text-red-400"}`}
+            >
+              {status.ok ? "Scores submitted." : status.error}
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
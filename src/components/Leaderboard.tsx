@@ -0,0 +1,128 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { Candidate } from "../types";
+import { compareRank } from "../lib/ranking";
+import { displayName } from "../lib/roster";
+import { avatarUrl } from "../lib/candidatePhotos";
+
+// Row photo: start with the avatar, switch to the real photo once it loads
+const RowPhoto: React.FC<{ photoUrl: string; name: string }> = ({
+  photoUrl,
+  name,
+}) => {
+  const [imgSrc, setImgSrc] = useState(avatarUrl(name));
+
+  useEffect(() => {
+    setImgSrc(avatarUrl(name));
+    const img = new Image();
+    img.onload = () => setImgSrc(photoUrl);
+    img.src = photoUrl;
+  }, [photoUrl, name]);
+
+  return (
+    <img
+      src={imgSrc}
+      className="w-10 h-10 md:w-14 md:h-14 rounded-full object-cover bg-gray-700 border-2 border-pageant-gold/40"
+      alt=""
+    />
+  );
+};
+
+// Stable identity for a row across score updates
+const rowKey = (c: Candidate) => `${c.category || ""}|${c.name}`;
+
+interface LeaderboardProps {
+  candidates: Candidate[];
+  activeCategory?: string;
+}
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({
+  candidates,
+  activeCategory,
+}) => {
+  const ranked = [...candidates].sort(compareRank);
+
+  // FLIP animation: remember where each row was, and when the order changes
+  // start every moved row at its old position and let it slide into place.
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const prevTops = useRef(new Map<string, number>());
+  const order = ranked.map(rowKey).join("\n");
+
+  useLayoutEffect(() => {
+    const newTops = new Map<string, number>();
+    rowRefs.current.forEach((el, key) => {
+      const top = el.offsetTop;
+      newTops.set(key, top);
+      const prevTop = prevTops.current.get(key);
+      if (prevTop !== undefined && prevTop !== top) {
+        el.style.transition = "none";
+        el.style.transform = `translateY(${prevTop - top}px)`;
+        void el.offsetHeight; // Force a reflow so the old position is committed
+        requestAnimationFrame(() => {
+          // Clearing the inline styles hands over to `.leaderboard-item`'s transition
+          el.style.transition = "";
+          el.style.transform = "";
+        });
+      }
+    });
+    prevTops.current = newTops;
+  }, [order]);
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-black text-white flex flex-col">
+      <div className="absolute inset-0 ethereal-gradient opacity-10" />
+
+      <div className="relative z-10 text-center pt-6 md:pt-10 pb-4 md:pb-6 space-y-2">
+        <div className="text-xs md:text-sm text-white/50 uppercase tracking-[0.3em] font-semibold">
+          Leaderboard
+        </div>
+        {activeCategory && (
+          <h1 className="text-3xl md:text-5xl font-bold uppercase tracking-[0.2em] text-pageant-gold">
+            {activeCategory}
+          </h1>
+        )}
+      </div>
+
+      <div className="relative z-10 flex-1 overflow-hidden px-4 md:px-24 pb-6 space-y-2 md:space-y-3">
+        {ranked.map((c, i) => {
+          // Candidates still tied for first all get the leader's highlight
+          const leader = (c.rank ?? i + 1) === 1;
+          return (
+            <div
+              key={rowKey(c)}
+              ref={(el) => {
+                if (el) rowRefs.current.set(rowKey(c), el);
+                else rowRefs.current.delete(rowKey(c));
+              }}
+              className={`leaderboard-item flex items-center space-x-4 md:space-x-6 px-4 md:px-8 py-2 md:py-3 rounded-xl border backdrop-blur-md
+                ${leader ? "bg-pageant-gold/20 border-pageant-gold" : "bg-white/5 border-white/10"}
+              `}
+            >
+              <div
+                className={`font-mono font-bold text-2xl md:text-4xl w-10 md:w-16 text-center ${leader ? "text-pageant-gold" : "text-white/60"}`}
+              >
+                {c.rank ?? i + 1}
+              </div>
+              <RowPhoto photoUrl={c.photoUrl} name={c.name} />
+              <div className="flex-1 min-w-0">
+                <div className="text-lg md:text-2xl font-bold truncate">
+                  {displayName(c)}
+                </div>
+                {c.category && (
+                  <div className="text-[10px] md:text-xs text-pageant-gold/80 uppercase tracking-widest truncate">
+                    {c.category}
+                  </div>
+                )}
+              </div>
+              <div className="text-2xl md:text-4xl font-bold font-mono">
+                {(c.totalPercentage || 0).toFixed(2)}
+                <span className="text-pageant-gold text-lg md:text-2xl ml-1">
+                  %
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from "react";
+import type { OverlayName, OverlayVisibility } from "../types";
+import { OVERLAYS } from "./Overlays";
+
+interface OverlayControlsProps {
+  overlays: OverlayVisibility;
+  setOverlay: (overlay: OverlayName, visible: boolean) => void;
+}
+
+// Show/hide for each broadcast overlay, with the URL to add as a browser source
+export const OverlayControls: React.FC<OverlayControlsProps> = ({
+  overlays,
+  setOverlay,
+}) => (
+  <div className="space-y-1">
+    <label className="text-xs text-gray-400 uppercase tracking-wider font-semibold">
+      Stream Overlays
+    </label>
+    <div className="flex space-x-2">
+      {OVERLAYS.map(({ name, label }) => (
+        <div key={name} className="flex-1 flex text-xs">
+          <button
+            onClick={() => setOverlay(name, !overlays[name])}
+            className={`flex-1 px-2 py-1 rounded-l font-bold uppercase tracking-wider border transition-colors
+              ${
+                overlays[name]
+                  ? "bg-red-600 border-red-600 text-white"
+                  : "bg-transparent border-gray-700 text-gray-400 hover:border-gray-400 hover:text-white"
+              }
+            `}
+          >
+            {label}
+          </button>
+          <a
+            href={`/overlay/${name}`}
+            target="_blank"
+            rel="noreferrer"
+            title={`Browser source: ${window.location.origin}/overlay/${name} (1920x1080)`}
+            className="px-2 py-1 rounded-r border border-l-0 border-gray-700 text-gray-400 hover:text-white"
+          >
+            ↗
+          </a>
+        </div>
+      ))}
+    </div>
+  </div>
+);
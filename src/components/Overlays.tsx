@@ -0,0 +1,150 @@
+import React, { useEffect, type ReactNode } from "react";
+import type { Candidate, OverlayName, RevealState } from "../types";
+import { compareRank } from "../lib/ranking";
+import { displayName } from "../lib/roster";
+import { revealedParts } from "../lib/reveal";
+import { judgeNumber } from "../lib/scoreParser";
+
+// The overlays, in the order the controller lists them
+export const OVERLAYS: { name: OverlayName; label: string }[] = [
+  { name: "lower-third", label: "Lower Third" },
+  { name: "score-bug", label: "Score Bug" },
+  { name: "leaderboard", label: "Corner Board" },
+];
+
+// Rows in the corner leaderboard
+const CORNER_ROWS = 5;
+
+// Fixed 1920x1080 stage on a transparent page, for a browser source of that size
+export const OverlayFrame: React.FC<{ children: ReactNode }> = ({ children }) => {
+  useEffect(() => {
+    document.body.classList.add("overlay-page");
+    return () => document.body.classList.remove("overlay-page");
+  }, []);
+
+  return (
+    <div className="relative w-[1920px] h-[1080px] overflow-hidden text-white">
+      {children}
+    </div>
+  );
+};
+
+// Slides and fades in and out instead of cutting
+const Reveal: React.FC<{
+  visible: boolean;
+  className: string;
+  children: ReactNode;
+}> = ({ visible, className, children }) => (
+  <div
+    className={`absolute transition-all duration-500 ease-out ${className} ${
+      visible ? "opacity-100 translate-y-0" : "opacity-0 translate-y-6"
+    }`}
+  >
+    {children}
+  </div>
+);
+
+interface CandidateOverlayProps {
+  candidate?: Candidate;
+  category: string;
+  visible: boolean;
+}
+
+// Candidate name and category across the bottom left
+export const LowerThird: React.FC<CandidateOverlayProps> = ({
+  candidate,
+  category,
+  visible,
+}) => (
+  <Reveal visible={visible && !!candidate} className="left-24 bottom-24">
+    {candidate && (
+      <div className="flex items-stretch shadow-2xl">
+        <div className="w-3 bg-pageant-gold" />
+        <div className="bg-black/80 px-10 py-5 space-y-1">
+          <div className="text-5xl font-bold">{displayName(candidate)}</div>
+          <div className="text-2xl uppercase tracking-[0.3em] text-pageant-gold">
+            {[category, candidate.profile?.hometown].filter(Boolean).join(" · ")}
+          </div>
+        </div>
+      </div>
+    )}
+  </Reveal>
+);
+
+// Total score in the top right, with the judges' scores once they're shown;
+// a stepped reveal on the main screen is followed card by card
+export const ScoreBug: React.FC<
+  CandidateOverlayProps & {
+    showJudgeScores: boolean;
+    reveal: RevealState | null;
+  }
+> = ({ candidate, category, visible, showJudgeScores, reveal }) => {
+  const revealed = candidate && revealedParts(candidate, reveal, showJudgeScores);
+  return (
+    <Reveal visible={visible && !!candidate} className="right-24 top-20">
+      {candidate && revealed && (
+        <div className="bg-black/80 shadow-2xl border-t-4 border-pageant-gold min-w-[22rem]">
+          <div className="flex items-center justify-between px-6 py-3 space-x-6">
+            <div className="min-w-0">
+              <div className="text-xl uppercase tracking-[0.2em] text-white/60 truncate">
+                {category}
+              </div>
+              <div className="text-2xl font-bold truncate">
+                {displayName(candidate)}
+              </div>
+            </div>
+            <div className="text-6xl font-mono font-bold text-pageant-gold">
+              {revealed.total ? candidate.totalPercentage.toFixed(2) : "--.--"}
+            </div>
+          </div>
+          {revealed.judges > 0 && (
+            <div className="flex border-t border-white/10">
+              {candidate.scores.slice(0, revealed.judges).map((score, i) => (
+                <div
+                  key={i}
+                  className={`flex-1 text-center py-2 ${candidate.droppedJudges?.includes(i) ? "line-through opacity-50" : ""}`}
+                >
+                  <div className="text-sm uppercase text-white/50">
+                    J{judgeNumber(candidate, i)}
+                  </div>
+                  <div className="text-2xl font-mono">{score.toFixed(1)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Reveal>
+  );
+};
+
+// Top of the category's ranking in the top left
+export const CornerLeaderboard: React.FC<{
+  candidates: Candidate[];
+  category: string;
+  visible: boolean;
+}> = ({ candidates, category, visible }) => {
+  const ranked = [...candidates].sort(compareRank).slice(0, CORNER_ROWS);
+
+  return (
+    <Reveal visible={visible && ranked.length > 0} className="left-24 top-20">
+      <div className="bg-black/80 shadow-2xl border-t-4 border-pageant-gold w-[30rem]">
+        <div className="px-5 py-3 text-xl uppercase tracking-[0.2em] text-pageant-gold">
+          {category}
+        </div>
+        {ranked.map((c, i) => (
+          <div
+            key={`${c.category || ""}|${c.name}`}
+            className="flex items-center px-5 py-2 border-t border-white/10 text-2xl"
+          >
+            <span className="w-10 font-mono text-white/60">{c.rank ?? i + 1}</span>
+            <span className="flex-1 truncate font-bold">{displayName(c)}</span>
+            <span className="font-mono text-pageant-gold">
+              {c.totalPercentage.toFixed(2)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </Reveal>
+  );
+};
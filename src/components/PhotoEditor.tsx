@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { Candidate } from "../types";
+import { displayName } from "../lib/roster";
+
+// Size of the crop square on screen, and of the stored photo
+const VIEWPORT = 256;
+const OUTPUT = 600;
+
+interface Crop {
+  zoom: number;
+  x: number; // Offset of the image center from the viewport center, in screen px
+  y: number;
+}
+
+// Keep the image covering the whole crop square
+const clampCrop = (crop: Crop, image: HTMLImageElement): Crop => {
+  const scale = (VIEWPORT / Math.min(image.width, image.height)) * crop.zoom;
+  const maxX = (image.width * scale - VIEWPORT) / 2;
+  const maxY = (image.height * scale - VIEWPORT) / 2;
+  return {
+    zoom: crop.zoom,
+    x: Math.max(-maxX, Math.min(maxX, crop.x)),
+    y: Math.max(-maxY, Math.min(maxY, crop.y)),
+  };
+};
+
+// Where the image sits in the crop square: left, top, width, height in screen px
+const placeImage = (crop: Crop, image: HTMLImageElement) => {
+  const scale = (VIEWPORT / Math.min(image.width, image.height)) * crop.zoom;
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return [
+    (VIEWPORT - width) / 2 + crop.x,
+    (VIEWPORT - height) / 2 + crop.y,
+    width,
+    height,
+  ] as const;
+};
+
+interface PhotoEditorProps {
+  candidate: Candidate;
+  category: string;
+  setPhoto: (
+    candidate: Candidate,
+    category: string | null,
+    photo: Blob | null,
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+// Dialog to pick, crop (square) and store a candidate's photo on the server
+export const PhotoEditor: React.FC<PhotoEditorProps> = ({
+  candidate,
+  category,
+  setPhoto,
+  onClose,
+}) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<Crop>({ zoom: 1, x: 0, y: 0 });
+  const [onlyThisCategory, setOnlyThisCategory] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  // Free the previous picture's object URL
+  useEffect(() => {
+    if (!image) return;
+    return () => URL.revokeObjectURL(image.src);
+  }, [image]);
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const img = new Image();
+    img.onload = () => {
+      setImage(img);
+      setCrop({ zoom: 1, x: 0, y: 0 });
+    };
+    img.src = URL.createObjectURL(file);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag.current || !image) return;
+    const dx = e.clientX - drag.current.x;
+    const dy = e.clientY - drag.current.y;
+    drag.current = { x: e.clientX, y: e.clientY };
+    setCrop((c) => clampCrop({ ...c, x: c.x + dx, y: c.y + dy }, image));
+  };
+
+  const scope = onlyThisCategory ? category : null;
+
+  const handleSave = async () => {
+    if (!image) return;
+    setSaving(true);
+    const canvas = document.createElement("canvas");
+    canvas.width = OUTPUT;
+    canvas.height = OUTPUT;
+    const k = OUTPUT / VIEWPORT;
+    const [left, top, width, height] = placeImage(crop, image);
+    canvas
+      .getContext("2d")!
+      .drawImage(image, left * k, top * k, width * k, height * k);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.9),
+    );
+    if (blob) await setPhoto(candidate, scope, blob);
+    setSaving(false);
+    onClose();
+  };
+
+  const handleRemove = async () => {
+    await setPhoto(candidate, scope, null);
+    onClose();
+  };
+
+  const placed = image && placeImage(crop, image);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl p-4 space-y-4 w-full max-w-sm text-sm">
+        <div className="font-bold text-pageant-gold truncate">
+          Photo: {displayName(candidate)}
+        </div>
+
+        <div
+          className="relative mx-auto overflow-hidden rounded-lg bg-gray-800 touch-none cursor-move"
+          style={{ width: VIEWPORT, height: VIEWPORT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (drag.current = null)}
+        >
+          {placed ? (
+            <img
+              src={image.src}
+              alt=""
+              draggable={false}
+              className="absolute max-w-none select-none"
+              style={{
+                left: placed[0],
+                top: placed[1],
+                width: placed[2],
+                height: placed[3],
+              }}
+            />
+          ) : (
+            <img
+              src={candidate.photoUrl}
+              alt=""
+              className="w-full h-full object-cover opacity-50"
+            />
+          )}
+        </div>
+
+        {image && (
+          <label className="flex items-center space-x-2 text-xs text-gray-400">
+            <span>Zoom</span>
+            <input
+              type="range"
+              min={1}
+              max={4}
+              step={0.01}
+              value={crop.zoom}
+              onChange={(e) =>
+                setCrop((c) =>
+                  clampCrop({ ...c, zoom: Number(e.target.value) }, image),
+                )
+              }
+              className="flex-1"
+            />
+          </label>
+        )}
+
+        <label className="block bg-gray-800 px-3 py-2 rounded hover:bg-gray-700 cursor-pointer text-center">
+          {image ? "Choose Another Picture" : "Choose Picture"}
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </label>
+
+        {category && (
+          <label className="flex items-center space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={onlyThisCategory}
+              onChange={(e) => setOnlyThisCategory(e.target.checked)}
+            />
+            <span>Only in {category} (otherwise every category)</span>
+          </label>
+        )}
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            disabled={!image || saving}
+            className="flex-1 bg-pageant-purple hover:bg-indigo-600 disabled:opacity-50 text-white py-2 rounded font-bold uppercase tracking-wider"
+          >
+            Save
+          </button>
+          {candidate.photo && (
+            <button
+              onClick={handleRemove}
+              className="bg-gray-800 hover:bg-red-700 px-3 py-2 rounded"
+            >
+              Remove
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="bg-gray-800 hover:bg-gray-700 px-3 py-2 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
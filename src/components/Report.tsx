@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useState } from "react";
+import type { AggregationMethod } from "../types";
+import {
+  criterionNames,
+  describeTie,
+  reportToCsv,
+  type ReportCategory,
+  type TabulationReport,
+} from "../lib/report";
+import { judgeCount, judgeIndex } from "../lib/scoreParser";
+import { displayName } from "../lib/roster";
+
+const AGGREGATION_LABELS: Record<AggregationMethod, string> = {
+  mean: "Mean of all judges",
+  "drop-extremes": "Highest and lowest judge dropped",
+  median: "Median judge",
+  "trimmed-mean": "Trimmed mean",
+};
+
+const formatScore = (value: number) => value.toFixed(2);
+
+// Save generated text as a file through a temporary link
+const download = (fileName: string, type: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// One category's tabulation sheet, with signature lines for its judges
+const CategorySheet: React.FC<{ result: ReportCategory; overall: boolean }> = ({
+  result,
+  overall,
+}) => {
+  const judges = judgeCount(result.candidates);
+  const criteria = criterionNames(result.candidates);
+
+  return (
+    <section className="space-y-4 print:break-before-page print:first-of-type:break-before-auto">
+      <div className="flex justify-between items-baseline border-b-2 border-black pb-1">
+        <h2 className="text-xl font-bold uppercase tracking-wider">
+          {result.category}
+        </h2>
+        <span className="text-xs text-gray-600">
+          {overall
+            ? "Weighted total of the category totals"
+            : `${AGGREGATION_LABELS[result.aggregation] ?? result.aggregation} · ${judges} judge${judges === 1 ? "" : "s"}`}
+        </span>
+      </div>
+
+      <table className="w-full text-xs border-collapse">
+        <thead>
+          <tr className="border-b border-black text-left">
+            <th className="py-1 pr-2">Rank</th>
+            <th className="py-1 pr-2">Candidate</th>
+            {Array.from({ length: judges }, (_, j) => (
+              <th key={j} className="py-1 px-1 text-right">
+                J{j + 1}
+              </th>
+            ))}
+            {criteria.map((name) => (
+              <th key={name} className="py-1 px-1 text-right">
+                {name}
+              </th>
+            ))}
+            <th className="py-1 pl-2 text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.candidates.map((c) => (
+            <React.Fragment key={`${c.category}|${c.name}`}>
+              <tr className="border-b border-gray-300 font-mono">
+                <td className="py-1 pr-2 font-bold">{c.rank}</td>
+                <td className="py-1 pr-2 font-sans">
+                  <div className="font-semibold">{displayName(c)}</div>
+                  {c.profile?.hometown && (
+                    <div className="text-[10px] text-gray-600">
+                      {c.profile.hometown}
+                    </div>
+                  )}
+                  {c.category && c.category !== "General" && (
+                    <div className="text-[10px] text-gray-600 uppercase">
+                      {c.category}
+                    </div>
+                  )}
+                </td>
+                {Array.from({ length: judges }, (_, j) => {
+                  const i = judgeIndex(c, j + 1);
+                  return (
+                    <td
+                      key={j}
+                      className={`py-1 px-1 text-right ${c.droppedJudges?.includes(i) ? "line-through text-gray-500" : ""}`}
+                    >
+                      {c.scores[i] === undefined ? "-" : formatScore(c.scores[i])}
+                    </td>
+                  );
+                })}
+                {criteria.map((name) => {
+                  const criterion = c.criteria?.find((cr) => cr.name === name);
+                  return (
+                    <td key={name} className="py-1 px-1 text-right">
+                      {criterion ? formatScore(criterion.average) : "-"}
+                    </td>
+                  );
+                })}
+                <td className="py-1 pl-2 text-right font-bold">
+                  {formatScore(c.totalPercentage)}
+                </td>
+              </tr>
+              {c.tie && (
+                <tr className="border-b border-gray-300">
+                  <td />
+                  <td
+                    colSpan={judges + criteria.length + 2}
+                    className={`pb-1 text-[10px] italic ${c.tie.resolved ? "text-gray-600" : "text-red-700 font-semibold"}`}
+                  >
+                    {describeTie(c)}
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+      {judges > 0 && (
+        <p className="text-[10px] text-gray-600">
+          Struck-through scores were dropped by the aggregation method.
+        </p>
+      )}
+
+      {/* Signature lines */}
+      <div className="grid grid-cols-3 gap-x-8 gap-y-8 pt-8 text-xs">
+        {[
+          ...Array.from({ length: judges }, (_, j) => `Judge ${j + 1}`),
+          "Tabulator",
+        ].map((role) => (
+          <div key={role} className="border-t border-black pt-1 text-center">
+            {role}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+interface ReportProps {
+  report: TabulationReport | null;
+  requestReport: () => Promise<{ ok: boolean; error?: string }>;
+}
+
+// Printable tabulation sheets for every category, with CSV/JSON export
+export const Report: React.FC<ReportProps> = ({ report, requestReport }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    const result = await requestReport();
+    setLoading(false);
+    setError(result.ok ? null : result.error || "Could not build the report.");
+  }, [requestReport]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const fileName = (extension: string) =>
+    `tabulation-${(report?.generatedAt ?? "").slice(0, 19).replace(/[T:]/g, "-")}.${extension}`;
+
+  return (
+    <div className="min-h-screen bg-white text-black p-6 md:p-10 print:p-0 space-y-8">
+      {/* Toolbar (not printed) */}
+      <div className="print:hidden flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50 font-semibold"
+        >
+          {loading ? "Loading..." : "Refresh"}
+        </button>
+        <button
+          onClick={() => window.print()}
+          disabled={!report}
+          className="px-4 py-2 rounded bg-pageant-purple text-white hover:bg-indigo-600 disabled:opacity-50 font-semibold"
+        >
+          Print
+        </button>
+        <button
+          onClick={() =>
+            report &&
+            download(fileName("csv"), "text/csv", reportToCsv(report))
+          }
+          disabled={!report}
+          className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50 font-semibold"
+        >
+          Download CSV
+        </button>
+        <button
+          onClick={() =>
+            report &&
+            download(
+              fileName("json"),
+              "application/json",
+              JSON.stringify(report, null, 2),
+            )
+          }
+          disabled={!report}
+          className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50 font-semibold"
+        >
+          Download JSON
+        </button>
+        {error && <span className="text-red-600 font-semibold">{error}</span>}
+      </div>
+
+      {report ? (
+        <>
+          <header className="space-y-1">
+            <h1 className="text-2xl font-bold uppercase tracking-widest">
+              Tabulation Report
+            </h1>
+            <div className="text-xs text-gray-600">
+              Generated {new Date(report.generatedAt).toLocaleString()}
+              {report.sourceLabel && ` from ${report.sourceLabel}`}
+            </div>
+          </header>
+          {report.categories.length === 0 && (
+            <div className="text-gray-500">No categories to report.</div>
+          )}
+          {report.categories.map((result) => (
+            <CategorySheet
+              key={result.category}
+              result={result}
+              overall={result.category === report.overallCategory}
+            />
+          ))}
+        </>
+      ) : (
+        !error && <div className="text-gray-500">Building report...</div>
+      )}
+    </div>
+  );
+};
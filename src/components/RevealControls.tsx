@@ -0,0 +1,113 @@
+import React, { useEffect } from "react";
+import type { RevealState } from "../types";
+
+interface RevealControlsProps {
+  reveal: RevealState | null;
+  // Candidate on air, who a new reveal starts with
+  programName?: string;
+  startReveal: () => void;
+  stepReveal: (step: 1 | -1) => void;
+  endReveal: () => void;
+}
+
+// Label for each step of a reveal: the name, one per judge, the total
+const stepLabel = (step: number, steps: number) =>
+  step === 0 ? "Name" : step === steps ? "Total" : `J${step}`;
+
+// Typing in a field shouldn't drive the screens
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    target.isContentEditable);
+
+// Operator side of the score reveal, with hotkeys: R starts or ends it, Space
+// shows the next part and Shift+Space or Backspace takes the last one back
+export const RevealControls: React.FC<RevealControlsProps> = ({
+  reveal,
+  programName,
+  startReveal,
+  stepReveal,
+  endReveal,
+}) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === "r" || e.key === "R") {
+        if (reveal) endReveal();
+        else if (programName) startReveal();
+      } else if (e.key === " " || e.key === "Backspace") {
+        // Even without a reveal, so Space never presses the focused button
+        // (often TAKE or NEXT after a click) and puts something on air
+        e.preventDefault();
+        if (reveal) stepReveal(e.key === " " && !e.shiftKey ? 1 : -1);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [reveal, programName, startReveal, stepReveal, endReveal]);
+
+  return (
+    <div className="mx-4 md:mx-8 mb-4 flex items-center space-x-3 text-xs">
+      <span className="text-gray-400 uppercase tracking-wider font-semibold whitespace-nowrap">
+        Score Reveal
+      </span>
+      {reveal ? (
+        <>
+          <div className="flex-1 min-w-0 flex flex-wrap gap-1">
+            {Array.from({ length: reveal.steps + 1 }, (_, step) => (
+              <span
+                key={step}
+                className={`px-2 py-0.5 rounded font-bold ${
+                  step <= reveal.step
+                    ? "bg-pageant-gold text-black"
+                    : "bg-gray-800 text-gray-500"
+                }`}
+              >
+                {stepLabel(step, reveal.steps)}
+              </span>
+            ))}
+          </div>
+          <button
+            onClick={() => stepReveal(-1)}
+            disabled={reveal.step === 0}
+            title="Shift+Space"
+            className="bg-gray-800 hover:bg-gray-700 disabled:opacity-40 px-3 py-1 rounded"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => stepReveal(1)}
+            disabled={reveal.step >= reveal.steps}
+            title="Space"
+            className="bg-pageant-purple hover:bg-indigo-600 disabled:opacity-40 text-white px-4 py-1 rounded font-bold uppercase tracking-wider"
+          >
+            Next
+          </button>
+          <button
+            onClick={endReveal}
+            title="R"
+            className="bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded"
+          >
+            End
+          </button>
+        </>
+      ) : (
+        <>
+          <span className="flex-1 min-w-0 truncate text-gray-500">
+            {programName
+              ? `Name, then each judge, then the total for ${programName}`
+              : "No candidate on air"}
+          </span>
+          <button
+            onClick={startReveal}
+            disabled={!programName}
+            title="R"
+            className="bg-pageant-purple hover:bg-indigo-600 disabled:opacity-40 text-white px-4 py-1 rounded font-bold uppercase tracking-wider"
+          >
+            Start
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from "react";
+import type { ScreenContent, ScreenRoute } from "../types";
+
+const CONTENTS: { value: ScreenContent; label: string }[] = [
+  { value: "main", label: "Main" },
+  { value: "spotlight", label: "Spotlight" },
+  { value: "leaderboard", label: "Board" },
+  { value: "announcement", label: "Announce" },
+  { value: "idle", label: "Idle" },
+];
+
+interface ScreenRoutingProps {
+  screens: ScreenRoute[];
+  setScreenRoute: (screen: string, content: ScreenContent) => void;
+}
+
+// Routing matrix: one row per named screen (/view/:screen), one column per content
+export const ScreenRouting: React.FC<ScreenRoutingProps> = ({
+  screens,
+  setScreenRoute,
+}) => {
+  if (screens.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs text-gray-400 uppercase tracking-wider font-semibold">
+        Screens
+      </label>
+      <table className="w-full text-xs">
+        <tbody>
+          {screens.map((screen) => (
+            <tr key={screen.name}>
+              <td className="pr-2 py-1 whitespace-nowrap">
+                <span
+                  title={screen.viewers > 0 ? "Connected" : "Not connected"}
+                  className={`inline-block w-2 h-2 rounded-full mr-2 ${screen.viewers > 0 ? "bg-green-500" : "bg-gray-600"}`}
+                />
+                {screen.name}
+              </td>
+              {CONTENTS.map(({ value, label }) => (
+                <td key={value} className="py-1 px-px">
+                  <button
+                    onClick={() => setScreenRoute(screen.name, value)}
+                    className={`w-full px-1 py-1 rounded font-bold uppercase tracking-wider border transition-colors
+                      ${
+                        screen.content === value
+                          ? "bg-pageant-gold text-black border-pageant-gold"
+                          : "bg-transparent border-gray-700 text-gray-400 hover:border-gray-400 hover:text-white"
+                      }
+                    `}
+                  >
+                    {label}
+                  </button>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import type { SlideshowSettings, SlideshowStatus } from "../types";
+
+interface SlideshowControlsProps {
+  slideshow: SlideshowStatus | null;
+  onStart: (settings: SlideshowSettings) => void;
+  onPause: (paused: boolean) => void;
+  onStop: () => void;
+}
+
+// Sidebar form for the hands-free parade mode, then its pause/stop buttons
+export const SlideshowControls: React.FC<SlideshowControlsProps> = ({
+  slideshow,
+  onStart,
+  onPause,
+  onStop,
+}) => {
+  const [seconds, setSeconds] = useState(10);
+  const [loop, setLoop] = useState(false);
+  // Empty when the judge scores stay hidden
+  const [revealAfter, setRevealAfter] = useState("");
+
+  if (slideshow) {
+    return (
+      <div className="flex items-center space-x-2 text-xs">
+        <span className="flex-1 text-gray-300">
+          Auto-advance every {slideshow.seconds}s
+          {slideshow.loop && ", looping"}
+          {slideshow.paused && (
+            <span className="text-yellow-400 font-bold"> (paused)</span>
+          )}
+        </span>
+        <button
+          onClick={() => onPause(!slideshow.paused)}
+          className="bg-gray-800 px-3 py-1 rounded hover:bg-gray-700 font-bold"
+        >
+          {slideshow.paused ? "Resume" : "Pause"}
+        </button>
+        <button
+          onClick={onStop}
+          className="bg-red-600 hover:bg-red-500 px-3 py-1 rounded font-bold"
+        >
+          Stop
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 text-xs">
+      <span className="text-gray-400 uppercase tracking-wider font-semibold whitespace-nowrap">
+        Auto
+      </span>
+      <input
+        type="number"
+        min={1}
+        value={seconds}
+        title="Seconds per candidate"
+        onChange={(e) => setSeconds(Math.max(1, Number(e.target.value) || 1))}
+        className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+      />
+      <span className="text-gray-400">s</span>
+      <input
+        type="number"
+        min={0}
+        value={revealAfter}
+        placeholder="Judges"
+        title="Seconds into each candidate when the judge scores appear (empty: never)"
+        onChange={(e) => setRevealAfter(e.target.value)}
+        className="w-16 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+      />
+      <label className="flex items-center space-x-1 text-gray-400">
+        <input
+          type="checkbox"
+          checked={loop}
+          onChange={(e) => setLoop(e.target.checked)}
+        />
+        <span>Loop</span>
+      </label>
+      <button
+        onClick={() =>
+          onStart({
+            seconds,
+            loop,
+            revealJudgesAfter:
+              revealAfter === "" ? null : Math.max(0, Number(revealAfter) || 0),
+          })
+        }
+        className="bg-pageant-purple hover:bg-indigo-600 px-3 py-1 rounded font-bold whitespace-nowrap ml-auto"
+      >
+        Start
+      </button>
+    </div>
+  );
+};
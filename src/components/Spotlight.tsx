@@ -1,137 +1,10 @@
 import React, { useEffect, useRef, useState } from "react";
-import type { Candidate } from "../types";
-
-// Small animated number component: counts from 0 to target on mount/when target changes
-const AnimatedNumber: React.FC<{
-  target: number;
-  duration?: number;
-  className?: string;
-}> = ({ target, duration = 3000, className = "" }) => {
-  const [value, setValue] = useState(0);
-  const rafRef = useRef<number | null>(null);
-  const startRef = useRef<number | null>(null);
-  const [pulse, setPulse] = useState(false);
-  const pulseTimeoutRef = useRef<number | null>(null);
-
-  useEffect(() => {
-    if (rafRef.current) cancelAnimationFrame(rafRef.current);
-    startRef.current = null;
-    // Show random high numbers first (80-100) for a portion of the duration,
-    // then settle smoothly to the real target for the remaining time.
-    const randomPhaseRatio = 0.7; // 70% time showing randoms
-    const randomPhaseDuration = duration * randomPhaseRatio;
-    const settleDuration = Math.max(1, duration - randomPhaseDuration);
-    let lastRandom = 90;
-    let settleStartValue: number | null = null;
-    // random tick will accelerate -> decelerate: start fast, end slow
-    const randomTickMin = 80; // start updating very fast (ms)
-    const randomTickMax = 500; // end updating slowly (ms)
-    const lastRandomTimeRef = { current: 0 } as { current: number };
-    const randomTargetRef = { current: lastRandom } as { current: number };
-    const randomStartRef = { current: lastRandom } as { current: number };
-    const tickStartRef = { current: 0 } as { current: number };
-
-    const start = (t: number) => {
-      if (!startRef.current) startRef.current = t;
-      const elapsed = t - startRef.current;
-
-      if (elapsed < randomPhaseDuration) {
-        // Random phase: show random high numbers (80-100)
-        // Tick interval interpolates from randomTickMin -> randomTickMax over the phase
-        const phaseProgress = Math.min(elapsed / randomPhaseDuration, 1);
-        const tickInterval = Math.round(
-          randomTickMin + (randomTickMax - randomTickMin) * phaseProgress,
-        );
-
-        // time to start a new random tick
-        if (
-          !lastRandomTimeRef.current ||
-          t - lastRandomTimeRef.current >= tickInterval
-        ) {
-          const nextRandom = Math.floor(80 + Math.random() * 20); // 80..99
-          lastRandomTimeRef.current = t;
-          // set up interpolation from previous target -> new target over tickInterval
-          randomStartRef.current = randomTargetRef.current;
-          randomTargetRef.current = nextRandom;
-          tickStartRef.current = t;
-          // pulse visual feedback on each new random value
-          setPulse(true);
-          if (pulseTimeoutRef.current)
-            window.clearTimeout(pulseTimeoutRef.current);
-          pulseTimeoutRef.current = window.setTimeout(
-            () => setPulse(false),
-            240,
-          ) as any;
-        }
-
-        // interpolate between randomStart -> randomTarget for smooth numeric transition
-        const sinceTick = t - tickStartRef.current;
-        const innerProgress = tickStartRef.current
-          ? Math.min(sinceTick / Math.max(1, tickInterval), 1)
-          : 1;
-        const easedInner = 1 - Math.pow(1 - innerProgress, 3);
-        const interp = Math.round(
-          randomStartRef.current +
-          easedInner * (randomTargetRef.current - randomStartRef.current),
-        );
-        setValue(interp);
-        rafRef.current = requestAnimationFrame(start);
-        return;
-      }
-
-      // Settle phase: smoothly move from lastRandom to target
-      if (settleStartValue === null) {
-        settleStartValue = lastRandom;
-      }
-      const settleElapsed = Math.min(
-        elapsed - randomPhaseDuration,
-        settleDuration,
-      );
-      const progress =
-        settleDuration <= 0 ? 1 : Math.min(settleElapsed / settleDuration, 1);
-      // ease-out cubic
-      const eased = 1 - Math.pow(1 - progress, 3);
-      const v = Math.round(
-        settleStartValue + eased * (target - settleStartValue),
-      );
-      setValue(v);
-      if (progress < 1) {
-        rafRef.current = requestAnimationFrame(start);
-      } else {
-        setValue(Math.round(target));
-        setPulse(true);
-        if (pulseTimeoutRef.current)
-          window.clearTimeout(pulseTimeoutRef.current);
-        pulseTimeoutRef.current = window.setTimeout(
-          () => setPulse(false),
-          260,
-        ) as any;
-      }
-    };
-    rafRef.current = requestAnimationFrame(start);
-    return () => {
-      if (rafRef.current) cancelAnimationFrame(rafRef.current);
-      if (pulseTimeoutRef.current) window.clearTimeout(pulseTimeoutRef.current);
-    };
-  }, [target, duration]);
-
-  return (
-    <span
-      className={className}
-      style={{
-        display: "inline-block",
-        transform: pulse ? "scale(1.08)" : "scale(1)",
-        transition: "transform 180ms ease",
-      }}
-    >
-      {value}
-    </span>
-  );
-};
-
-// Helper to generate fallback avatar URL
-const getFallbackAvatarUrl = (name: string) =>
-  `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random&color=fff&size=512`;
+import type { Candidate, RevealState } from "../types";
+import { AnimatedNumber } from "./AnimatedNumber";
+import { displayName } from "../lib/roster";
+import { avatarUrl } from "../lib/candidatePhotos";
+import { revealedParts } from "../lib/reveal";
+import { judgeNumber } from "../lib/scoreParser";
 
 interface SpotlightProps {
   candidate: Candidate;
@@ -142,6 +15,10 @@ interface SpotlightProps {
   controlsVisible?: boolean;
   activeCategory?: string;
   showJudgeScores?: boolean;
+  // Corner text from the event theme; empty for none
+  watermark?: string;
+  // Step-by-step reveal run by the operator; overrides showJudgeScores
+  reveal?: RevealState | null;
 }
 
 export const Spotlight: React.FC<SpotlightProps> = ({
@@ -153,11 +30,16 @@ export const Spotlight: React.FC<SpotlightProps> = ({
   controlsVisible = true,
   activeCategory,
   showJudgeScores = true,
+  watermark = "LIVE SCOREBOARD",
+  reveal = null,
 }) => {
+  const revealed = revealedParts(candidate, reveal, showJudgeScores);
+  // Criterion averages come with the judge cards, or with the total in a stepped reveal
+  const showCriteria = revealed.revealing ? revealed.total : showJudgeScores;
   const [displayScore, setDisplayScore] = useState(0);
   // Start with fallback URL, then switch to local image if it loads successfully
   const [imageUrl, setImageUrl] = useState(
-    getFallbackAvatarUrl(candidate.name),
+    avatarUrl(candidate.name),
   );
   const requestRef = useRef<number | undefined>(undefined);
   const startTimeRef = useRef<number | undefined>(undefined);
@@ -167,7 +49,7 @@ export const Spotlight: React.FC<SpotlightProps> = ({
   // Check if image exists and use it, otherwise keep fallback
   useEffect(() => {
     // Always start with the fallback
-    setImageUrl(getFallbackAvatarUrl(candidate.name));
+    setImageUrl(avatarUrl(candidate.name));
 
     // Try to load the local image
     const img = new Image();
@@ -277,38 +159,103 @@ export const Spotlight: React.FC<SpotlightProps> = ({
             </div>
           )}
           <h2 className="text-4xl md:text-7xl font-bold tracking-tight drop-shadow-2xl text-white">
-            {candidate.name}
+            {displayName(candidate)}
           </h2>
+          {candidate.profile?.hometown && (
+            <div className="text-lg md:text-2xl text-white/80 font-semibold">
+              {candidate.profile.hometown}
+            </div>
+          )}
+          {candidate.profile?.bio && (
+            <p className="max-w-xl mx-auto text-sm md:text-base text-white/60 line-clamp-3">
+              {candidate.profile.bio}
+            </p>
+          )}
         </div>
 
         {/* Scores Grid */}
-        {showJudgeScores && (
+        {revealed.judges > 0 && (
           <div className="grid grid-cols-2 md:grid-cols-3 gap-3 md:gap-6 w-full max-w-2xl mt-4 md:mt-8">
-            {candidate.scores.map((score, i) => (
+            {candidate.scores.slice(0, revealed.judges).map((score, i) => {
+              // Left out of the total by the category's aggregation method
+              const dropped = candidate.droppedJudges?.includes(i);
+              return (
+                <div
+                  key={i}
+                  className={`judge-card flex flex-col items-center p-3 md:p-6 rounded-xl md:rounded-2xl border border-white/10 bg-white/5 backdrop-blur-md shadow-2xl ${dropped ? "border-dashed" : ""}`}
+                  style={{
+                    animationName: "fadeInFromTop",
+                    // slightly slower reveal so cards appear gracefully one-by-one;
+                    // a stepped reveal brings each one in on its own press
+                    animationDuration: "700ms",
+                    animationTimingFunction: "cubic-bezier(.2,.8,.2,1)",
+                    animationDelay: revealed.revealing ? "0ms" : `${i * 160}ms`,
+                    animationFillMode: "forwards",
+                  }}
+                >
+                  <span className="text-[10px] md:text-xs text-pageant-gold uppercase tracking-widest mb-1 md:mb-2 font-bold">
+                    Judge {judgeNumber(candidate, i)}
+                    {dropped && <span className="ml-2 text-white/70">Dropped</span>}
+                  </span>
+                  <span
+                    className={`text-3xl md:text-6xl font-bold font-mono text-white flex items-baseline ${dropped ? "line-through decoration-pageant-gold decoration-4 opacity-50" : ""}`}
+                  >
+                    <AnimatedNumber
+                      target={Math.round(score)}
+                      duration={2000}
+                      className="leading-none"
+                    />
+                    <span className="text-pageant-gold text-2xl md:text-5xl ml-1 md:ml-2">
+                      %
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Total, as the last step of a stepped reveal */}
+        {revealed.revealing && revealed.total && (
+          <div className="text-center">
+            <div className="text-xs md:text-sm text-pageant-gold uppercase tracking-[0.3em] font-bold mb-1">
+              Total
+            </div>
+            <div className="text-6xl md:text-9xl font-bold font-mono text-white drop-shadow-2xl">
+              <AnimatedNumber
+                target={candidate.totalPercentage}
+                decimals={2}
+                duration={4000}
+              />
+              <span className="text-pageant-gold text-4xl md:text-7xl ml-2">%</span>
+            </div>
+          </div>
+        )}
+
+        {/* Per-criterion breakdown (weighted categories only) */}
+        {showCriteria && candidate.criteria && candidate.criteria.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-2 md:gap-4 w-full max-w-2xl">
+            {candidate.criteria.map((criterion, i) => (
               <div
-                key={i}
-                className="judge-card flex flex-col items-center p-3 md:p-6 rounded-xl md:rounded-2xl border border-white/10 bg-white/5 backdrop-blur-md shadow-2xl"
+                key={criterion.name}
+                className="judge-card flex items-baseline space-x-2 px-4 py-2 rounded-full border border-pageant-gold/30 bg-black/50 backdrop-blur-md"
                 style={{
                   animationName: "fadeInFromTop",
-                  // slightly slower reveal so cards appear gracefully one-by-one
                   animationDuration: "700ms",
                   animationTimingFunction: "cubic-bezier(.2,.8,.2,1)",
-                  animationDelay: `${i * 160}ms`,
+                  // start after the judge cards have appeared
+                  animationDelay: `${(candidate.scores.length + i) * 160}ms`,
                   animationFillMode: "forwards",
                 }}
               >
-                <span className="text-[10px] md:text-xs text-pageant-gold uppercase tracking-widest mb-1 md:mb-2 font-bold">
-                  Judge {i + 1}
+                <span className="text-[10px] md:text-xs text-pageant-gold uppercase tracking-widest font-bold">
+                  {criterion.name}
                 </span>
-                <span className="text-3xl md:text-6xl font-bold font-mono text-white flex items-baseline">
-                  <AnimatedNumber
-                    target={Math.round(score)}
-                    duration={2000}
-                    className="leading-none"
-                  />
-                  <span className="text-pageant-gold text-2xl md:text-5xl ml-1 md:ml-2">
-                    %
-                  </span>
+                <span className="text-[10px] md:text-xs text-white/50 font-mono">
+                  {Math.round(criterion.weight)}%
+                </span>
+                <span className="text-lg md:text-2xl font-bold font-mono text-white">
+                  {criterion.average.toFixed(1)}
                 </span>
               </div>
             ))}
@@ -367,9 +314,11 @@ export const Spotlight: React.FC<SpotlightProps> = ({
         </div>
       )}
 
-      <div className="absolute bottom-8 left-8 text-white/30 text-xs font-mono">
-        LIVE SCOREBOARD
-      </div>
+      {watermark && (
+        <div className="absolute bottom-8 left-8 text-white/30 text-xs font-mono">
+          {watermark}
+        </div>
+      )}
     </div>
   );
 };
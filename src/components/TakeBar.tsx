@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import type { Candidate, ProgramCue, Transition } from "../types";
+import type { Preview } from "../hooks/usePresentation";
+import { displayName } from "../lib/roster";
+
+// One line naming what a bus shows, e.g. "Evening Gown · #7 Maria Santos"
+const describe = (bus: ProgramCue, candidates: Candidate[]) =>
+  bus.isIdle
+    ? "Idle Screen"
+    : [
+        bus.category,
+        bus.displayMode === "leaderboard"
+          ? "Leaderboard"
+          : bus.displayMode === "announcement"
+            ? "Announcement"
+            : candidates[bus.index] && displayName(candidates[bus.index]),
+      ]
+        .filter(Boolean)
+        .join(" · ");
+
+interface TakeBarProps {
+  program: ProgramCue;
+  programCandidates: Candidate[];
+  preview: Preview;
+  onTake: (transition: Transition) => void;
+  onDropCue: () => void;
+}
+
+// Program and preview side by side, and the TAKE that puts the preview on air
+export const TakeBar: React.FC<TakeBarProps> = ({
+  program,
+  programCandidates,
+  preview,
+  onTake,
+  onDropCue,
+}) => {
+  const [transition, setTransition] = useState<Transition>("cut");
+
+  return (
+    <div className="mx-4 md:mx-8 mb-4 flex items-center space-x-3 text-xs">
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center space-x-2">
+          <span className="w-16 text-center bg-red-600 text-white px-2 py-0.5 rounded font-bold">
+            PGM
+          </span>
+          <span className="truncate text-gray-300">
+            {describe(program, programCandidates)}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="w-16 text-center bg-green-600 text-white px-2 py-0.5 rounded font-bold">
+            PVW
+          </span>
+          <span
+            className={`truncate ${preview.pending ? "text-white" : "text-gray-500"}`}
+          >
+            {preview.pending
+              ? describe(preview, preview.candidates)
+              : "Same as program"}
+          </span>
+          {preview.pending && (
+            <button
+              onClick={onDropCue}
+              className="text-gray-500 hover:text-white"
+              title="Drop the cue"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-col space-y-1">
+        {(["cut", "fade"] as const).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTransition(t)}
+            className={`px-2 py-0.5 rounded font-bold uppercase tracking-wider border ${
+              transition === t
+                ? "bg-pageant-gold text-black border-pageant-gold"
+                : "border-gray-600 text-gray-400 hover:border-gray-400"
+            }`}
+          >
+            {t}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => onTake(transition)}
+        disabled={!preview.pending}
+        className="bg-red-600 hover:bg-red-500 disabled:opacity-40 text-white px-6 py-3 rounded-lg text-base font-bold tracking-widest transition-transform active:scale-95 touch-manipulation"
+      >
+        TAKE
+      </button>
+    </div>
+  );
+};
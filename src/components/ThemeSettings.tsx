@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import type { Theme, ThemeChanges, ThemeColors } from "../types";
+import { THEME_FONTS } from "../lib/theme";
+
+const COLORS: { key: keyof ThemeColors; label: string }[] = [
+  { key: "primary", label: "Primary" },
+  { key: "secondary", label: "Secondary" },
+  { key: "gradientFrom", label: "Gradient" },
+  { key: "gradientTo", label: "Gradient 2" },
+];
+
+const TEXT_FIELDS: {
+  key: "eventTitle" | "watermark";
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "eventTitle", label: "Event Title", placeholder: "None" },
+  { key: "watermark", label: "Watermark", placeholder: "None" },
+];
+
+interface ThemeSettingsProps {
+  theme: Theme;
+  setTheme: (changes: ThemeChanges) => void;
+  setLogo: (file: File | null) => void;
+}
+
+// Collapsible editor for the event theme. Edits are collected in a draft and
+// sent on Apply, so dragging a color picker doesn't restyle every screen (and
+// fill the history) on each step.
+export const ThemeSettings: React.FC<ThemeSettingsProps> = ({
+  theme,
+  setTheme,
+  setLogo,
+}) => {
+  const [draft, setDraft] = useState(theme);
+
+  // Follow changes made from other controllers
+  useEffect(() => {
+    setDraft(theme);
+  }, [theme]);
+
+  const changed =
+    TEXT_FIELDS.some(({ key }) => draft[key] !== theme[key]) ||
+    draft.font !== theme.font ||
+    COLORS.some(({ key }) => draft.colors[key] !== theme.colors[key]);
+
+  const handleLogoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still uploads it
+    e.target.value = "";
+    if (file) setLogo(file);
+  };
+
+  return (
+    <details className="text-xs">
+      <summary className="text-gray-400 uppercase tracking-wider font-semibold cursor-pointer select-none">
+        Theme
+      </summary>
+      <div className="space-y-2 pt-2">
+        {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+          <label key={key} className="flex items-center space-x-2">
+            <span className="w-20 text-gray-400">{label}</span>
+            <input
+              type="text"
+              value={draft[key]}
+              placeholder={placeholder}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-pageant-gold"
+            />
+          </label>
+        ))}
+        {/* Only fonts bundled with the app, so screens show them offline */}
+        <label className="flex items-center space-x-2">
+          <span className="w-20 text-gray-400">Font</span>
+          <select
+            value={draft.font}
+            title="Fonts bundled with the app; they work without internet"
+            onChange={(e) => setDraft({ ...draft, font: e.target.value })}
+            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-pageant-gold"
+          >
+            <option value="">Default</option>
+            {THEME_FONTS.map((font) => (
+              <option key={font} value={font}>
+                {font}
+              </option>
+            ))}
+            {/* A font saved before the list existed, until another is picked */}
+            {draft.font && !THEME_FONTS.includes(draft.font) && (
+              <option value={draft.font} disabled>
+                {draft.font} (not bundled)
+              </option>
+            )}
+          </select>
+        </label>
+        <div className="flex justify-between">
+          {COLORS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col items-center space-y-1 text-gray-400">
+              <input
+                type="color"
+                value={draft.colors[key]}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    colors: { ...draft.colors, [key]: e.target.value },
+                  })
+                }
+                className="w-10 h-8 bg-transparent cursor-pointer"
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="w-20 text-gray-400">Logo</span>
+          <span className="flex-1 truncate text-gray-300">
+            {theme.logo ? "Uploaded" : "Bundled"}
+          </span>
+          <label className="bg-gray-800 px-3 py-1 rounded hover:bg-gray-700 cursor-pointer whitespace-nowrap">
+            Upload
+            <input
+              type="file"
+              accept=".png,.jpg,.jpeg,.gif,.webp,.svg"
+              className="hidden"
+              onChange={handleLogoSelected}
+            />
+          </label>
+          {theme.logo && (
+            <button
+              onClick={() => setLogo(null)}
+              className="bg-gray-800 px-3 py-1 rounded hover:bg-gray-700 whitespace-nowrap"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() =>
+              setTheme({
+                eventTitle: draft.eventTitle,
+                watermark: draft.watermark,
+                // Left out when unchanged, so an older unbundled font
+                // doesn't block applying the other changes
+                ...(draft.font !== theme.font && { font: draft.font }),
+                colors: draft.colors,
+              })
+            }
+            disabled={!changed}
+            className="flex-1 bg-pageant-purple hover:bg-indigo-600 disabled:opacity-50 text-white py-1 rounded font-bold uppercase tracking-wider"
+          >
+            Apply
+          </button>
+          <button
+            onClick={() => setDraft(theme)}
+            disabled={!changed}
+            className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 px-3 py-1 rounded"
+          >
+            Revert
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
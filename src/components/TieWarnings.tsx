@@ -0,0 +1,55 @@
+import React from "react";
+import type { Candidate } from "../types";
+import { compareRank } from "../lib/ranking";
+
+// Candidates are only unique by name within their block (division)
+const candidateKey = (c: { name: string; category?: string }) =>
+  `${c.category || ""}|${c.name}`;
+
+// One tie per group of tied candidates, best rank first
+const tiedGroups = (candidates: Candidate[]) => {
+  const groups = new Map<string, Candidate[]>();
+  for (const c of [...candidates].sort(compareRank)) {
+    if (!c.tie) continue;
+    const key = [c, ...c.tie.with].map(candidateKey).sort().join("\n");
+    groups.set(key, [...(groups.get(key) ?? []), c]);
+  }
+  return Array.from(groups.values());
+};
+
+// Warns the tabulator about tied totals and says how each tie was broken
+export const TieWarnings: React.FC<{ candidates: Candidate[] }> = ({
+  candidates,
+}) => {
+  const groups = tiedGroups(candidates);
+  if (groups.length === 0) return null;
+  // Name the division when the category has more than one
+  const divided = new Set(candidates.map((c) => c.category)).size > 1;
+
+  return (
+    <div className="mx-4 md:mx-8 mb-4 max-h-32 overflow-y-auto rounded-xl border border-yellow-500 bg-yellow-950/60 text-xs shrink-0">
+      {groups.map((group) => {
+        const { rules, resolved } = group[0].tie!;
+        return (
+          <div
+            key={group.map(candidateKey).join("\n")}
+            className="px-3 py-2 border-b border-yellow-500/30 last:border-b-0 space-y-1"
+          >
+            <div className="font-bold text-yellow-300">
+              TIE{divided && group[0].category && ` in ${group[0].category}`} at{" "}
+              {group[0].totalPercentage.toFixed(2)}%:{" "}
+              {group.map((c) => `${c.name} (#${c.rank})`).join(", ")}
+            </div>
+            <div className={resolved ? "text-gray-300" : "text-red-400 font-semibold"}>
+              {rules.length > 0 && `Broken by: ${rules.join(", then ")}. `}
+              {!resolved &&
+                (rules.length > 0
+                  ? "Some are still tied and share a rank."
+                  : "No tie-break rule separates them; they share a rank.")}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
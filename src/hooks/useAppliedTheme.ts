@@ -0,0 +1,37 @@
+import { useEffect } from "react";
+import type { Theme } from "../types";
+
+// Tailwind reads the theme colors from these CSS variables (see style.css)
+const COLOR_VARIABLES: Record<keyof Theme["colors"], string> = {
+  primary: "--color-pageant-gold",
+  secondary: "--color-pageant-purple",
+  gradientFrom: "--color-ethereal",
+  gradientTo: "--color-ethereal-complement",
+};
+
+// Title from index.html, used when the event has none
+const DEFAULT_TITLE = document.title;
+
+// Restyle the page with the event theme: colors, font and page title
+export function useAppliedTheme(theme: Theme) {
+  useEffect(() => {
+    const root = document.documentElement;
+    for (const [key, variable] of Object.entries(COLOR_VARIABLES)) {
+      root.style.setProperty(variable, theme.colors[key as keyof Theme["colors"]]);
+    }
+  }, [theme.colors]);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    if (!theme.font) {
+      root.style.removeProperty("--font-sans");
+      return;
+    }
+    // The family is bundled with the app (THEME_FONTS), so no network is needed
+    root.style.setProperty("--font-sans", `${theme.font}, ui-sans-serif, system-ui, sans-serif`);
+  }, [theme.font]);
+
+  useEffect(() => {
+    document.title = theme.eventTitle || DEFAULT_TITLE;
+  }, [theme.eventTitle]);
+}
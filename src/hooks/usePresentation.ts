@@ -1,9 +1,101 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { io, Socket } from "socket.io-client";
 
-import type { Candidate } from "../types";
+import type {
+  ActionLogEntry,
+  Announcement,
+  Candidate,
+  Connection,
+  ControllerAuthStatus,
+  ControllerLoginResult,
+  DisplayMode,
+  IdleItem,
+  IdlePlaylist,
+  JudgeOwnScores,
+  JudgeSubmission,
+  JudgeSubmitResult,
+  OverlayName,
+  OverlayVisibility,
+  Placement,
+  ProgramCue,
+  RevealState,
+  ScreenContent,
+  ScreenRoute,
+  SlideshowSettings,
+  SlideshowStatus,
+  Theme,
+  ThemeChanges,
+  Transition,
+} from "../types";
+import type {
+  ClientToServerEvents,
+  ProtocolError,
+  ServerToClientEvents,
+  ShowState,
+} from "../protocol";
+import type { ParsedCandidate } from "../lib/scoreParser";
+import { applyCandidateChanges } from "../lib/scoreDiff";
+import { withPhotoUrl } from "../lib/candidatePhotos";
+import { SERVER_URL } from "../lib/serverUrl";
+import type { TabulationReport } from "../lib/report";
+import { DEFAULT_THEME } from "../lib/theme";
 
-const SOCKET_URL = `http://${window.location.hostname}:3001`;
+// Controller PIN remembered on this device so reconnects stay logged in
+const PIN_STORAGE_KEY = "controllerPin";
+// Pages that log in as a controller; viewers and tablets on the same device
+// don't send the stored PIN
+const CONTROLLER_PATHS = ["/admin", "/controller", "/report"];
+// A judge tablet's PIN, per judge
+const judgePinKey = (judgeId: number) => `judgePin:${judgeId}`;
+
+// Last show state received, so a reload while the server is unreachable still
+// shows the right candidate. Bump the version when ShowState changes shape.
+const STATE_STORAGE_KEY = "lastShowState:v2";
+
+const loadSavedState = (): ShowState | null => {
+  try {
+    return JSON.parse(localStorage.getItem(STATE_STORAGE_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const saveState = (state: ShowState) => {
+  try {
+    localStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Storage full or disabled: the screen still works, just without the copy
+  }
+};
+
+// The full announcement order, only sent to controllers
+export interface AnnouncementPreview {
+  category: string;
+  division?: string;
+  placements: Placement[];
+  revealed: number;
+}
+
+// The controllers' preview bus: the cue waiting for TAKE, or the program
+// when nothing is cued
+export interface Preview extends ProgramCue {
+  candidates: Candidate[];
+  // True while the preview differs from what is on air
+  pending: boolean;
+}
+
+type ShowSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// A judge tablet's login that the server hasn't answered yet
+interface JudgeJoin {
+  judgeId: number;
+  pin?: string;
+  resolve: (result: ControllerLoginResult) => void;
+}
+
+const withPlacementPhoto = (
+  placement: Placement<ParsedCandidate>,
+): Placement => ({ ...placement, candidate: withPhotoUrl(placement.candidate) });
 
 export function usePresentationController(initialIndex: number = 0) {
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
@@ -11,101 +103,623 @@ export function usePresentationController(initialIndex: number = 0) {
   const [isIdle, setIsIdle] = useState(false);
   const [showJudgeScores, setShowJudgeScoresState] = useState<boolean>(true);
   const [selectedCategory, setSelectedCategory] = useState<string>("");
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>("spotlight");
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const [announcementPreview, setAnnouncementPreview] =
+    useState<AnnouncementPreview | null>(null);
+  const [cued, setCued] = useState<
+    (ProgramCue & { candidates: Candidate[] | null }) | null
+  >(null);
+  const [fades, setFades] = useState(0);
+  const [slideshow, setSlideshow] = useState<SlideshowStatus | null>(null);
+  const [reveal, setReveal] = useState<RevealState | null>(null);
+  const [overlays, setOverlays] = useState<OverlayVisibility>({
+    "lower-third": false,
+    "score-bug": false,
+    leaderboard: false,
+  });
+  const [categories, setCategories] = useState<string[]>([]);
+  const [sourceLabel, setSourceLabel] = useState<string | null>(null);
+  const [overallCategory, setOverallCategory] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // True until the server answers the first connection or a pending fetch
+  const [loading, setLoading] = useState(true);
+  const [judgeTablets, setJudgeTablets] = useState(false);
+  const [lockedCandidates, setLockedCandidates] = useState<string[]>([]);
+  const [judgeOwnScores, setJudgeOwnScores] = useState<JudgeOwnScores | null>(
+    null,
+  );
+  // null until the server says whether this client may control the show
+  const [controllerAuth, setControllerAuth] =
+    useState<ControllerAuthStatus | null>(null);
+  const [actionHistory, setActionHistory] = useState<ActionLogEntry[]>([]);
+  // This display's routing when it is a named screen (/view/:screen)
+  const [screenContent, setScreenContent] = useState<ScreenContent>("main");
+  const [screens, setScreens] = useState<ScreenRoute[]>([]);
+  const [report, setReport] = useState<TabulationReport | null>(null);
+  const [theme, setThemeState] = useState<Theme>(DEFAULT_THEME);
+  const [idlePlaylist, setIdlePlaylistState] = useState<IdlePlaylist>({
+    items: [],
+    current: 0,
+  });
+  // The last event the server refused, until the operator dismisses it
+  const [refusal, setRefusal] = useState<ProtocolError | null>(null);
+  const [connection, setConnection] = useState<Connection>({
+    status: "connecting",
+    since: Date.now(),
+  });
+  const joinedScreen = useRef<string | null>(null);
+  const joinedJudge = useRef<number | null>(null);
+  // Sent on every connect until answered: socket.io's send buffer is cleared
+  // on reconnect, and a tablet that loads offline only connects by reconnecting
+  const pendingJudge = useRef<JudgeJoin | null>(null);
+  const [socket, setSocket] = useState<ShowSocket | null>(null);
+
+  // Send a judge login and settle it with the first answer. A wrong PIN is
+  // forgotten; a lockout or a server without judges keeps the stored one.
+  const sendJudgeJoin = useCallback((target: ShowSocket, join: JudgeJoin) => {
+    const { judgeId, pin } = join;
+    target.emit("JOIN_JUDGE", { judgeId, pin }, (result: ControllerLoginResult) => {
+      // Already answered, or replaced by a newer login
+      if (pendingJudge.current !== join) return;
+      pendingJudge.current = null;
+      const key = judgePinKey(judgeId);
+      if (result.ok) {
+        joinedJudge.current = judgeId;
+        if (pin) localStorage.setItem(key, pin);
+      } else if (result.wrongPin) {
+        localStorage.removeItem(key);
+      }
+      join.resolve(result);
+    });
+  }, []);
 
   useEffect(() => {
-    const newSocket = io(SOCKET_URL);
+    // The stored PIN is re-read on every (re)connect
+    const newSocket: ShowSocket = io(SERVER_URL, {
+      auth: (cb) =>
+        cb({
+          pin: CONTROLLER_PATHS.includes(window.location.pathname.replace(/\/+$/, ""))
+            ? localStorage.getItem(PIN_STORAGE_KEY)
+            : null,
+        }),
+    });
     setSocket(newSocket);
 
+    // The server sends the full state on every (re)connect, so that is all a
+    // client needs to catch up after an outage
     newSocket.on("connect", () => {
       console.log("Connected to socket server");
+      setConnection({ status: "connected", since: Date.now() });
+      // Rooms don't survive a reconnect, so register the named screen and the
+      // judge tablet again
+      if (joinedScreen.current) newSocket.emit("JOIN_SCREEN", joinedScreen.current);
+      if (pendingJudge.current) {
+        sendJudgeJoin(newSocket, pendingJudge.current);
+      } else if (joinedJudge.current !== null) {
+        const judgeId = joinedJudge.current;
+        const pin = localStorage.getItem(judgePinKey(judgeId)) ?? undefined;
+        newSocket.emit("JOIN_JUDGE", { judgeId, pin }, () => {});
+      }
     });
 
-    newSocket.on(
-      "STATE_UPDATE",
-      (data: {
-        currentIndex: number;
-        candidates?: Candidate[];
-        isIdle?: boolean;
-        category?: string;
-        showJudgeScores?: boolean;
-      }) => {
-        setCurrentIndex(data.currentIndex);
-        if (data.candidates && data.candidates.length > 0) {
-          setRemoteCandidates(data.candidates);
-        }
-        if (data.isIdle !== undefined) {
-          setIsIdle(data.isIdle);
-        }
-        if (data.category !== undefined) {
-          setSelectedCategory(data.category);
-        }
-        if (data.showJudgeScores !== undefined) {
-          setShowJudgeScoresState(data.showJudgeScores);
-        }
-      },
-    );
+    newSocket.on("disconnect", (reason) => {
+      console.warn(`Disconnected from socket server: ${reason}`);
+      setConnection({ status: "offline", since: Date.now() });
+    });
+
+    // The first connection failed; socket.io keeps retrying
+    newSocket.on("connect_error", () => {
+      setConnection((prev) =>
+        prev.status === "connecting" ? { status: "offline", since: Date.now() } : prev,
+      );
+    });
+
+    // Drop what was clicked while offline instead of replaying it minutes
+    // later; the fresh state arrives on connect instead
+    newSocket.io.on("reconnect", () => {
+      newSocket.sendBuffer = [];
+    });
+
+    // Latest state as received, kept up to date with score diffs for storage
+    let lastState: ShowState | null = null;
+
+    const applyState = (data: ShowState) => {
+      setCurrentIndex(data.currentIndex);
+      setRemoteCandidates(data.candidates.map(withPhotoUrl));
+      setIsIdle(data.isIdle);
+      setSelectedCategory(data.category);
+      setShowJudgeScoresState(data.showJudgeScores);
+      setDisplayMode(data.displayMode);
+      setCategories(data.categories);
+      setSourceLabel(data.sourceLabel);
+      setError(data.scoreError);
+      setOverallCategory(data.overallCategory);
+      setJudgeTablets(data.judgeTablets);
+      setLockedCandidates(data.lockedCandidates);
+      setSlideshow(data.slideshow);
+      setOverlays(data.overlays);
+      setReveal(data.reveal);
+      setFades(data.fades);
+      setAnnouncement(
+        data.announcement && {
+          ...data.announcement,
+          revealed: data.announcement.revealed.map(withPlacementPhoto),
+        },
+      );
+      setLoading(false);
+    };
+
+    const savedState = loadSavedState();
+    if (savedState) applyState(savedState);
+
+    newSocket.on("STATE_UPDATE", (data) => {
+      applyState(data);
+      lastState = data;
+      saveState(data);
+    });
+
+    // Only the candidates whose scores changed since the last poll. The server
+    // sends a full STATE_UPDATE first whenever the list itself changes.
+    newSocket.on("SCORES_DIFF", (diff) => {
+      setRemoteCandidates((prev) => applyCandidateChanges(prev, diff.changes));
+      if (lastState) {
+        lastState = {
+          ...lastState,
+          candidates: applyCandidateChanges(lastState.candidates, diff.changes),
+        };
+        saveState(lastState);
+      }
+    });
+
+    newSocket.on("ANNOUNCEMENT_PREVIEW", (preview) => {
+      setAnnouncementPreview(
+        preview && {
+          category: preview.category,
+          division: preview.division,
+          placements: preview.placements.map(withPlacementPhoto),
+          revealed: preview.revealed,
+        },
+      );
+    });
+
+    newSocket.on("PREVIEW", (data) => {
+      setCued(
+        data && {
+          ...data,
+          candidates: data.candidates && data.candidates.map(withPhotoUrl),
+        },
+      );
+    });
+
+    newSocket.on("JUDGE_SCORES", (data) => {
+      setJudgeOwnScores(data);
+    });
+
+    newSocket.on("ACTION_HISTORY", (entries) => {
+      setActionHistory(entries);
+    });
+
+    newSocket.on("SCREEN_STATE", (data) => {
+      if (data.screen === joinedScreen.current) setScreenContent(data.content);
+    });
+
+    newSocket.on("SCREENS", (list) => {
+      setScreens(list);
+    });
+
+    // The uploaded logo is served by the socket server, not the page's server
+    newSocket.on("THEME", (data) => {
+      setThemeState({ ...data, logo: data.logo && `${SERVER_URL}${data.logo}` });
+    });
+
+    newSocket.on("IDLE_PLAYLIST", (data) => {
+      setIdlePlaylistState(data);
+    });
+
+    newSocket.on("REPORT", (data) => {
+      setReport(data);
+    });
+
+    newSocket.on("AUTH_STATUS", (status) => {
+      if (status.wrongPin) localStorage.removeItem(PIN_STORAGE_KEY);
+      setControllerAuth(status);
+    });
+
+    // The server rejected an event this client sent (bad payload, not logged in)
+    newSocket.on("PROTOCOL_ERROR", (refused) => {
+      console.warn(`Server rejected ${refused.event}: ${refused.message}`);
+      setRefusal(refused);
+    });
 
     return () => {
       newSocket.close();
     };
-  }, []);
+  }, [sendJudgeJoin]);
 
   const setIndex = useCallback(
-    (newIndex: number, candidates?: Candidate[]) => {
+    (newIndex: number) => {
       setCurrentIndex(newIndex);
-      // Auto-hide judge scores when changing candidate
+      // Auto-hide judge scores when changing candidate (in the same event,
+      // so a single Undo brings both back)
       setShowJudgeScoresState(false);
-      socket?.emit("SET_SHOW_JUDGE_SCORES", false);
-      if (candidates) {
-        setRemoteCandidates(candidates);
-        socket?.emit("SET_INDEX", { index: newIndex, candidates });
-      } else {
-        socket?.emit("SET_INDEX", { index: newIndex });
-      }
+      socket?.emit("SET_INDEX", { index: newIndex, showJudgeScores: false });
     },
     [socket],
   );
 
-  const toggleIdle = useCallback(
-    (idleState: boolean) => {
-      setIsIdle(idleState);
-      socket?.emit("SET_IDLE", idleState);
+  const setShowJudgeScores = useCallback(
+    (value: boolean) => {
+      setShowJudgeScoresState(value);
+      socket?.emit("SET_SHOW_JUDGE_SCORES", value);
     },
     [socket],
   );
 
-  const setCategory = useCallback(
-    (category: string, candidates?: Candidate[]) => {
-      setSelectedCategory(category);
-      setCurrentIndex(0); // Reset to first candidate when changing category
-      if (candidates) {
-        setRemoteCandidates(candidates);
-        socket?.emit("SET_CATEGORY", { category, candidates });
-      } else {
-        socket?.emit("SET_CATEGORY", { category });
-      }
+  // Change what is cued in the preview (null drops the cue); screens only
+  // change on TAKE
+  const cue = useCallback(
+    (changes: Partial<ProgramCue> | null) => {
+      socket?.emit("CUE", changes);
     },
     [socket],
   );
 
-  const setShowJudgeScores = useCallback(
-    (value: boolean) => {
-      setShowJudgeScoresState(value);
-      socket?.emit("SET_SHOW_JUDGE_SCORES", value);
+  // Put the cued preview on air
+  const take = useCallback(
+    (transition: Transition) => {
+      socket?.emit("TAKE", transition);
+    },
+    [socket],
+  );
+
+  // Reveal the candidate on screen step by step: name, each judge, the total
+  const startReveal = useCallback(() => {
+    socket?.emit("START_REVEAL");
+  }, [socket]);
+
+  // Show the next part (1) or take the last one back (-1)
+  const stepReveal = useCallback(
+    (step: 1 | -1) => {
+      socket?.emit("REVEAL_STEP", step);
+    },
+    [socket],
+  );
+
+  const endReveal = useCallback(() => {
+    socket?.emit("END_REVEAL");
+  }, [socket]);
+
+  // Show or hide one broadcast overlay on every /overlay/:name source
+  const setOverlay = useCallback(
+    (overlay: OverlayName, visible: boolean) => {
+      socket?.emit("SET_OVERLAY", { overlay, visible });
     },
     [socket],
   );
 
+  // Let the server step through the candidates on its own
+  const startSlideshow = useCallback(
+    (settings: SlideshowSettings) => {
+      socket?.emit("START_SLIDESHOW", settings);
+    },
+    [socket],
+  );
+
+  const setSlideshowPaused = useCallback(
+    (paused: boolean) => {
+      socket?.emit("SET_SLIDESHOW_PAUSED", paused);
+    },
+    [socket],
+  );
+
+  const stopSlideshow = useCallback(() => {
+    socket?.emit("STOP_SLIDESHOW");
+  }, [socket]);
+
+  // Subscribe this client to controller-only updates (announcement preview)
+  const joinControllers = useCallback(() => {
+    socket?.emit("JOIN_CONTROLLERS");
+  }, [socket]);
+
+  // Start a reverse-order Top N reveal of a category's ranking
+  const startAnnouncement = useCallback(
+    (category: string, topN: number, division?: string) => {
+      socket?.emit("START_ANNOUNCEMENT", { category, topN, division });
+    },
+    [socket],
+  );
+
+  // Reveal the next place (1) or hide the last revealed one (-1)
+  const stepAnnouncement = useCallback(
+    (step: 1 | -1) => {
+      socket?.emit("ANNOUNCEMENT_STEP", step);
+    },
+    [socket],
+  );
+
+  const endAnnouncement = useCallback(() => {
+    socket?.emit("END_ANNOUNCEMENT");
+  }, [socket]);
+
+  // Ask the server to re-fetch the active category now instead of waiting for the next poll
+  const refresh = useCallback(() => {
+    setLoading(true);
+    socket?.emit("REFRESH_SCORES");
+  }, [socket]);
+
+  // Upload local CSV/XLSX files to the server and use them as the score source
+  const loadLocalFiles = useCallback(
+    async (files: File[]) => {
+      setLoading(true);
+      const fileData = await Promise.all(
+        files.map(async (file) => ({
+          name: file.name,
+          data: await file.arrayBuffer(),
+        })),
+      );
+      socket?.emit("LOAD_SCORE_FILES", fileData);
+    },
+    [socket],
+  );
+
+  // Use the scores entered on the judge tablets as the score source
+  const switchToJudgeTablets = useCallback(() => {
+    setLoading(true);
+    socket?.emit("USE_JUDGE_TABLETS");
+  }, [socket]);
+
+  // Log in as a judge tablet and fetch its own scores. Without a PIN, the one
+  // stored from the last login is used; a PIN that works is remembered.
+  const joinJudge = useCallback(
+    (judgeId: number, pin?: string) =>
+      new Promise<ControllerLoginResult>((resolve) => {
+        // Stays pending until the socket exists; joinJudge changes with it, so
+        // the tablet asks again then
+        if (!socket) return;
+        // A login still waiting is replaced, and settled with this one's answer
+        const previous = pendingJudge.current;
+        const join: JudgeJoin = {
+          judgeId,
+          pin: pin ?? localStorage.getItem(judgePinKey(judgeId)) ?? undefined,
+          resolve: (result) => {
+            previous?.resolve(result);
+            resolve(result);
+          },
+        };
+        pendingJudge.current = join;
+        // Offline, the connect handler sends it once the server is back
+        if (socket.connected) sendJudgeJoin(socket, join);
+      }),
+    [socket, sendJudgeJoin],
+  );
+
+  // Send a judge's scores for one candidate; resolves with the server's verdict
+  const submitJudgeScores = useCallback(
+    (submission: JudgeSubmission) =>
+      new Promise<JudgeSubmitResult>((resolve) => {
+        if (!socket?.connected) {
+          resolve({ ok: false, error: "Not connected to the server." });
+          return;
+        }
+        socket.emit("JUDGE_SUBMIT", submission, resolve);
+      }),
+    [socket],
+  );
+
+  // Close (or reopen) tablet scoring for a candidate in the current category
+  const setCandidateLock = useCallback(
+    (candidate: string, locked: boolean) => {
+      socket?.emit("SET_CANDIDATE_LOCK", { candidate, locked });
+    },
+    [socket],
+  );
+
+  // Clear the saved show on the server and start over from the first category
+  const startNewShow = useCallback(() => {
+    setLoading(true);
+    socket?.emit("NEW_SHOW");
+  }, [socket]);
+
+  // Show this display as a named screen and follow its routing
+  const joinScreen = useCallback(
+    (name: string) => {
+      joinedScreen.current = name;
+      setScreenContent("main");
+      socket?.emit("JOIN_SCREEN", name);
+    },
+    [socket],
+  );
+
+  // Choose what a named screen shows
+  const setScreenRoute = useCallback(
+    (screen: string, content: ScreenContent) => {
+      socket?.emit("SET_SCREEN_ROUTE", { screen, content });
+    },
+    [socket],
+  );
+
+  // Restore the position from before the latest logged control action
+  const undo = useCallback(() => {
+    socket?.emit("UNDO");
+  }, [socket]);
+
+  // Restyle every screen
+  const setTheme = useCallback(
+    (changes: ThemeChanges) => {
+      socket?.emit("SET_THEME", changes);
+    },
+    [socket],
+  );
+
+  // Upload a new event logo, or pass null to go back to the bundled one
+  const setLogo = useCallback(
+    async (file: File | null) => {
+      socket?.emit(
+        "SET_LOGO",
+        file && { name: file.name, data: await file.arrayBuffer() },
+      );
+    },
+    [socket],
+  );
+
+  // Save the idle playlist after editing, reordering or removing items
+  const setIdlePlaylist = useCallback(
+    (items: IdleItem[]) => {
+      socket?.emit("SET_IDLE_PLAYLIST", items);
+    },
+    [socket],
+  );
+
+  // Upload a sponsor slide to the end of the idle playlist
+  const addIdleImage = useCallback(
+    async (file: File) => {
+      socket?.emit("ADD_IDLE_IMAGE", {
+        name: file.name,
+        data: await file.arrayBuffer(),
+      });
+    },
+    [socket],
+  );
+
+  // Store a cropped photo for a candidate, only in `category` or in every
+  // category (null); a null photo removes it
+  const setPhoto = useCallback(
+    async (candidate: Candidate, category: string | null, photo: Blob | null) => {
+      socket?.emit("SET_PHOTO", {
+        candidate: candidate.name,
+        division: candidate.category,
+        category,
+        data: photo && (await photo.arrayBuffer()),
+      });
+    },
+    [socket],
+  );
+
+  // Ask for a fresh tabulation report; resolves once it has arrived (or failed)
+  const requestReport = useCallback(
+    () =>
+      new Promise<{ ok: boolean; error?: string }>((resolve) => {
+        if (!socket?.connected) {
+          resolve({ ok: false, error: "Not connected to the server." });
+          return;
+        }
+        socket.emit("GET_REPORT", resolve);
+      }),
+    [socket],
+  );
+
+  // Log in as a controller; the PIN is remembered on success
+  const loginController = useCallback(
+    (pin: string) =>
+      new Promise<ControllerLoginResult>((resolve) => {
+        if (!socket?.connected) {
+          resolve({ ok: false, error: "Not connected to the server." });
+          return;
+        }
+        socket.emit("CONTROLLER_LOGIN", pin, (result: ControllerLoginResult) => {
+          if (result.ok) localStorage.setItem(PIN_STORAGE_KEY, pin);
+          resolve(result);
+        });
+      }),
+    [socket],
+  );
+
+  const logoutController = useCallback(() => {
+    localStorage.removeItem(PIN_STORAGE_KEY);
+    socket?.emit("CONTROLLER_LOGOUT");
+  }, [socket]);
+
+  // Go back to the source configured on the server
+  const resetSource = useCallback(() => {
+    setLoading(true);
+    socket?.emit("RESET_SCORE_SOURCE");
+  }, [socket]);
+
+  const program: ProgramCue = {
+    category: selectedCategory,
+    index: currentIndex,
+    displayMode,
+    isIdle,
+  };
+  const preview: Preview = cued
+    ? {
+        ...cued,
+        // A cue in the category on air shares its candidates
+        candidates:
+          cued.candidates ??
+          (cued.category === selectedCategory ? remoteCandidates : []),
+        pending: (Object.keys(program) as (keyof ProgramCue)[]).some(
+          (key) => cued[key] !== program[key],
+        ),
+      }
+    : { ...program, candidates: remoteCandidates, pending: false };
+
   return {
     currentIndex,
     setIndex,
     remoteCandidates,
     isIdle,
-    toggleIdle,
     selectedCategory,
-    setCategory,
     showJudgeScores,
     setShowJudgeScores,
+    displayMode,
+    announcement,
+    announcementPreview,
+    preview,
+    cue,
+    take,
+    fades,
+    reveal,
+    startReveal,
+    stepReveal,
+    endReveal,
+    overlays,
+    setOverlay,
+    slideshow,
+    startSlideshow,
+    setSlideshowPaused,
+    stopSlideshow,
+    joinControllers,
+    startAnnouncement,
+    stepAnnouncement,
+    endAnnouncement,
+    categories,
+    overallCategory,
+    sourceLabel,
+    error,
+    loading,
+    refresh,
+    loadLocalFiles,
+    resetSource,
+    startNewShow,
+    switchToJudgeTablets,
+    judgeTablets,
+    lockedCandidates,
+    judgeOwnScores,
+    joinJudge,
+    submitJudgeScores,
+    setCandidateLock,
+    actionHistory,
+    undo,
+    screenContent,
+    screens,
+    joinScreen,
+    setScreenRoute,
+    report,
+    requestReport,
+    theme,
+    setTheme,
+    setLogo,
+    setPhoto,
+    idlePlaylist,
+    setIdlePlaylist,
+    addIdleImage,
+    controllerAuth,
+    loginController,
+    logoutController,
+    connection,
+    refusal,
+    dismissRefusal: () => setRefusal(null),
   };
 }
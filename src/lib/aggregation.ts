@@ -0,0 +1,59 @@
+import type { AggregationMethod, CategorySettings } from "../types";
+
+const DEFAULT_TRIM_PERCENT = 20;
+
+// A candidate's total, and which judges (indexes into the scores) didn't count
+export interface Aggregate {
+  total: number;
+  dropped: number[];
+}
+
+// How many judges to drop from each end of the ranked scores
+function dropCount(
+  count: number,
+  method: AggregationMethod,
+  trimPercent: number,
+): number {
+  switch (method) {
+    case "drop-extremes":
+      // Dropping from 2 judges or fewer would leave nothing to average
+      return count >= 3 ? 1 : 0;
+    case "median":
+      return Math.floor((count - 1) / 2);
+    case "trimmed-mean":
+      return Math.min(
+        Math.floor((count * trimPercent) / 100),
+        Math.floor((count - 1) / 2),
+      );
+    default:
+      return 0;
+  }
+}
+
+// Combine judge scores with the category's aggregation method. Dropping
+// ranks the scores (ties keep judge order), so with equal scores the earlier
+// judge is dropped as the lowest and the later one as the highest.
+export function aggregateScores(
+  scores: number[],
+  settings?: CategorySettings,
+): Aggregate {
+  if (scores.length === 0) return { total: 0, dropped: [] };
+
+  const k = dropCount(
+    scores.length,
+    settings?.aggregation ?? "mean",
+    settings?.trimPercent ?? DEFAULT_TRIM_PERCENT,
+  );
+  const ranked = scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => a.score - b.score);
+  const kept = ranked.slice(k, ranked.length - k);
+  const dropped = [...ranked.slice(0, k), ...ranked.slice(ranked.length - k)]
+    .map((s) => s.index)
+    .sort((a, b) => a - b);
+
+  return {
+    total: kept.reduce((sum, s) => sum + s.score, 0) / kept.length,
+    dropped,
+  };
+}
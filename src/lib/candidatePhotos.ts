@@ -0,0 +1,27 @@
+import type { Candidate } from "../types";
+import type { ParsedCandidate } from "./scoreParser";
+import { SERVER_URL } from "./serverUrl";
+
+// Initials on a colored circle, drawn locally so it works without internet
+export function avatarUrl(name: string): string {
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+  // Same name, same color
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect width="100" height="100" fill="hsl(${Math.abs(hash) % 360},45%,40%)"/><text x="50" y="50" dy=".35em" text-anchor="middle" font-family="sans-serif" font-size="40" fill="#fff">${initials}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+// Attach a photo to candidates received from the server: the one in the
+// server's photo store, else the roster's, else an avatar
+export const withPhotoUrl = (candidate: ParsedCandidate): Candidate => ({
+  ...candidate,
+  photoUrl: candidate.photo
+    ? `${SERVER_URL}${candidate.photo}`
+    : candidate.profile?.photo || avatarUrl(candidate.name),
+});
@@ -0,0 +1,99 @@
+import type { OverallSettings } from "../types";
+import type { ParsedCandidate } from "./scoreParser";
+
+export const DEFAULT_OVERALL_NAME = "Overall";
+
+// One sheet's parsed candidates, as input to the overall ranking
+export interface CategoryResult {
+  category: string;
+  candidates: ParsedCandidate[];
+}
+
+export const getOverallName = (settings?: OverallSettings) =>
+  settings?.name || DEFAULT_OVERALL_NAME;
+
+// Candidate number from the header text, e.g. "CANDIDATE 7" -> 7
+export function candidateNumber(name: string): number | null {
+  const match = name.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// Key that identifies the same person across sheets: the candidate number,
+// plus the male/female division when the block label names one (so that
+// "CANDIDATE 1" in a Male block and in a Female block stay separate).
+export function candidateKey(
+  candidate: Pick<ParsedCandidate, "name" | "category">,
+): string | null {
+  const number = candidateNumber(candidate.name);
+  if (number === null) return null;
+  const label = (candidate.category || "").toLowerCase();
+  const division = /\bfemale\b/.test(label)
+    ? "female"
+    : /\bmale\b/.test(label)
+      ? "male"
+      : "";
+  return `${division}#${number}`;
+}
+
+// Category the overall ranking puts a candidate in: "Overall - Male" for the
+// Male division, or just "Overall" for a sheet without divisions
+export function overallDivision(
+  candidate: Pick<ParsedCandidate, "name" | "category">,
+  overallName: string,
+): string {
+  const division = candidateKey(candidate)?.split("#")[0];
+  return division
+    ? `${overallName} - ${division[0].toUpperCase()}${division.slice(1)}`
+    : overallName;
+}
+
+// Merge several sheets into one weighted ranking. A candidate missing from a
+// weighted sheet scores 0 there. Per-sheet totals are exposed through the
+// `criteria` breakdown so the spotlight can show them.
+export function computeOverall(
+  results: CategoryResult[],
+  settings: OverallSettings,
+): ParsedCandidate[] {
+  const weighted = results.filter((r) => (settings.weights[r.category] ?? 0) > 0);
+  const totalWeight = weighted.reduce(
+    (sum, r) => sum + settings.weights[r.category],
+    0,
+  );
+
+  // Collect every candidate in order of first appearance
+  const merged = new Map<string, { first: ParsedCandidate; totals: Record<string, number> }>();
+  for (const result of weighted) {
+    for (const candidate of result.candidates) {
+      const key = candidateKey(candidate);
+      if (!key) continue;
+      const entry = merged.get(key) ?? { first: candidate, totals: {} };
+      entry.totals[result.category] = candidate.totalPercentage;
+      merged.set(key, entry);
+    }
+  }
+
+  const overallName = getOverallName(settings);
+  return Array.from(merged.values())
+    .sort(
+      (a, b) =>
+        (candidateKey(a.first) ?? "").localeCompare(candidateKey(b.first) ?? "", undefined, {
+          numeric: true,
+        }),
+    )
+    .map(({ first, totals }) => {
+      const criteria = weighted.map((r) => ({
+        name: r.category,
+        weight: settings.weights[r.category],
+        average: totals[r.category] ?? 0,
+      }));
+      const sum = criteria.reduce((s, c) => s + c.average * c.weight, 0);
+      return {
+        name: first.name,
+        category: overallDivision(first, overallName),
+        scores: [],
+        totalPercentage: totalWeight > 0 ? sum / totalWeight : 0,
+        criteria,
+        ...(first.profile && { profile: first.profile }),
+      };
+    });
+}
@@ -0,0 +1,64 @@
+import type { Placement } from "../types";
+import type { ParsedCandidate } from "./scoreParser";
+import { compareRank } from "./ranking";
+
+const ordinal = (n: number) => {
+  const suffix =
+    n % 100 >= 11 && n % 100 <= 13
+      ? "th"
+      : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[n % 10] ||
+        "th";
+  return `${n}${suffix}`;
+};
+
+// Title announced for a place: 1 = "Winner", 2 = "1st Runner-Up", ...
+export const placementTitle = (place: number) =>
+  place === 1 ? "Winner" : `${ordinal(place - 1)} Runner-Up`;
+
+// The blocks a ranking is split into (e.g. Male and Female), each ranked on its
+// own, so each is announced on its own
+export const divisionsOf = (candidates: Pick<ParsedCandidate, "category">[]) =>
+  Array.from(new Set(candidates.map((c) => c.category ?? "")));
+
+// Heading for an announcement: the category, and the division when there is
+// one ("Swimsuit - FEMALE"; the overall divisions already name the category)
+export const announcementTitle = ({
+  category,
+  division,
+}: {
+  category: string;
+  division?: string;
+}) =>
+  !division
+    ? category
+    : division.toLowerCase().startsWith(category.toLowerCase())
+      ? division
+      : `${category} - ${division}`;
+
+// The Top N in rank order. Places come from each candidate's rank, so
+// candidates no tie-break rule separated would get the same title.
+const topPlaces = (candidates: ParsedCandidate[], topN: number) =>
+  [...candidates].sort(compareRank).slice(0, Math.max(0, topN));
+
+// Candidates in the Top N who still share their rank with someone (inside or
+// just outside the Top N), so the announcement can't name a place for them
+export const unresolvedTies = (candidates: ParsedCandidate[], topN: number) =>
+  topPlaces(candidates, topN).filter(
+    (candidate) =>
+      candidate.rank !== undefined &&
+      candidates.some((other) => other !== candidate && other.rank === candidate.rank),
+  );
+
+// Order ranked candidates and return the Top N in reveal order, lowest place first
+export function buildPlacements(
+  candidates: ParsedCandidate[],
+  topN: number,
+): Placement<ParsedCandidate>[] {
+  return topPlaces(candidates, topN)
+    .map((candidate, i) => {
+      // Candidates ranked before tie-breaks existed have no rank
+      const place = candidate.rank ?? i + 1;
+      return { place, title: placementTitle(place), candidate };
+    })
+    .reverse();
+}
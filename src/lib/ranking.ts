@@ -0,0 +1,161 @@
+import type { CategorySettings, TieBreakRule, TieInfo } from "../types";
+import { judgeCount, judgeIndex, type ParsedCandidate } from "./scoreParser";
+
+const DEFAULT_TIE_PRECISION = 2;
+
+// Rule values are compared at this precision so float noise in averages
+// doesn't count as a difference
+const RULE_PRECISION = 6;
+
+const roundTo = (value: number, places: number) =>
+  Number(value.toFixed(places));
+
+// What a rule is called in the controller's tie warning
+export function describeTieBreakRule(rule: TieBreakRule): string {
+  switch (rule.type) {
+    case "criterion":
+      return `Higher ${rule.criterion} average`;
+    case "judge":
+      return `Higher Judge ${rule.judge} score`;
+    case "first-place-votes":
+      return "More first-place votes";
+  }
+}
+
+// A judge's score for a candidate; judges who left it blank sort last
+const scoreFrom = (c: ParsedCandidate, judge: number) =>
+  c.scores[judgeIndex(c, judge)] ?? -Infinity;
+
+// Each candidate's value under a rule, higher is better. Candidates the rule
+// can't score (e.g. no such criterion) sort last.
+function ruleValues(rule: TieBreakRule, group: ParsedCandidate[]): number[] {
+  switch (rule.type) {
+    case "criterion": {
+      const name = rule.criterion.toLowerCase();
+      return group.map(
+        (c) =>
+          c.criteria?.find((cr) => cr.name.toLowerCase() === name)?.average ??
+          -Infinity,
+      );
+    }
+    case "judge":
+      return group.map((c) => scoreFrom(c, rule.judge));
+    case "first-place-votes": {
+      const votes = group.map(() => 0);
+      const judges = judgeCount(group);
+      for (let judge = 1; judge <= judges; judge++) {
+        const top = Math.max(...group.map((c) => scoreFrom(c, judge)));
+        if (top === -Infinity) continue;
+        group.forEach((c, i) => {
+          if (scoreFrom(c, judge) === top) votes[i]++;
+        });
+      }
+      return votes;
+    }
+    default:
+      return group.map(() => 0);
+  }
+}
+
+// Split a group into runs of equal value, best first
+function splitBy<T>(items: T[], values: number[]): T[][] {
+  const order = items
+    .map((item, i) => ({ item, value: roundTo(values[i], RULE_PRECISION) }))
+    // Compared with === first, since -Infinity - -Infinity is NaN
+    .sort((a, b) => (a.value === b.value ? 0 : b.value - a.value));
+  const runs: T[][] = [];
+  order.forEach((entry, i) => {
+    if (i > 0 && entry.value === order[i - 1].value) {
+      runs[runs.length - 1].push(entry.item);
+    } else {
+      runs.push([entry.item]);
+    }
+  });
+  return runs;
+}
+
+// Order a tied group with the rules, recording which ones made a difference
+function settle(
+  group: ParsedCandidate[],
+  rules: TieBreakRule[],
+  applied: Set<TieBreakRule>,
+): ParsedCandidate[][] {
+  if (group.length < 2 || rules.length === 0) return [group];
+  const [rule, ...rest] = rules;
+  const runs = splitBy(group, ruleValues(rule, group));
+  if (runs.length > 1) applied.add(rule);
+  return runs.flatMap((run) => settle(run, rest, applied));
+}
+
+// Rank one division by total at the category's tie precision and break ties
+// with its tie-break rules, adding each candidate's rank and tie to `ranks`
+function rankDivision<C extends ParsedCandidate>(
+  candidates: C[],
+  settings: CategorySettings | undefined,
+  ranks: Map<C, { rank: number; tie: TieInfo | null }>,
+) {
+  const precision = settings?.tiePrecision ?? DEFAULT_TIE_PRECISION;
+  const rules = settings?.tieBreak ?? [];
+  const groups = splitBy(
+    candidates,
+    candidates.map((c) => roundTo(c.totalPercentage, precision)),
+  );
+
+  let place = 1;
+  for (const group of groups) {
+    const applied = new Set<TieBreakRule>();
+    const runs = settle(group, rules, applied) as C[][];
+    for (const run of runs) {
+      for (const candidate of run) {
+        ranks.set(candidate, {
+          rank: place,
+          tie:
+            group.length > 1
+              ? {
+                  with: group
+                    .filter((c) => c !== candidate)
+                    .map((c) => ({ name: c.name, category: c.category })),
+                  rules: rules
+                    .filter((r) => applied.has(r))
+                    .map(describeTieBreakRule),
+                  resolved: runs.every((r) => r.length === 1),
+                }
+              : null,
+        });
+      }
+      place += run.length;
+    }
+  }
+}
+
+// Rank candidates within each block of the sheet (e.g. its Male and Female
+// divisions, which number their candidates separately) and return them in
+// their original order with `rank` and `tie` set. Candidates no rule
+// separates share a rank (1, 1, 3).
+export function rankCandidates<C extends ParsedCandidate>(
+  candidates: C[],
+  settings?: CategorySettings,
+): C[] {
+  const divisions = new Map<string | undefined, C[]>();
+  for (const candidate of candidates) {
+    divisions.set(candidate.category, [
+      ...(divisions.get(candidate.category) ?? []),
+      candidate,
+    ]);
+  }
+
+  const ranks = new Map<C, { rank: number; tie: TieInfo | null }>();
+  for (const division of divisions.values()) {
+    rankDivision(division, settings, ranks);
+  }
+
+  return candidates.map((candidate) => ({
+    ...candidate,
+    ...ranks.get(candidate)!,
+  }));
+}
+
+// Sort order for a ranked list: by rank, falling back to the total for
+// candidates ranked before tie-breaks existed
+export const compareRank = (a: ParsedCandidate, b: ParsedCandidate) =>
+  (a.rank ?? 0) - (b.rank ?? 0) || b.totalPercentage - a.totalPercentage;
@@ -0,0 +1,100 @@
+import type { AggregationMethod } from "../types";
+import {
+  judgeCount,
+  judgeIndex,
+  judgeNumber,
+  type ParsedCandidate,
+} from "./scoreParser";
+
+// One category's results as the scoreboard ranked them
+export interface ReportCategory {
+  category: string;
+  aggregation: AggregationMethod;
+  // In rank order
+  candidates: ParsedCandidate[];
+}
+
+// Tabulation report for every category, built by the server on request
+export interface TabulationReport {
+  generatedAt: string; // ISO timestamp
+  sourceLabel: string | null;
+  overallCategory: string | null;
+  categories: ReportCategory[];
+}
+
+// Criterion (or, for the overall category, sheet) names in first-seen order
+export function criterionNames(candidates: ParsedCandidate[]): string[] {
+  const names: string[] = [];
+  for (const c of candidates) {
+    for (const criterion of c.criteria ?? []) {
+      if (!names.includes(criterion.name)) names.push(criterion.name);
+    }
+  }
+  return names;
+}
+
+// How a candidate's tie was settled, for the report's tie column
+export function describeTie(candidate: ParsedCandidate): string {
+  const tie = candidate.tie;
+  if (!tie) return "";
+  const parts = [`Tied with ${tie.with.map((c) => c.name).join(", ")}`];
+  if (tie.rules.length > 0) parts.push(`broken by ${tie.rules.join(", then ")}`);
+  if (!tie.resolved) parts.push("still tied");
+  return parts.join("; ");
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatScore = (value: number) => String(Number(value.toFixed(4)));
+
+// One row per candidate across every category; judge and criterion columns
+// cover the widest category and stay blank where a category has fewer
+export function reportToCsv(report: TabulationReport): string {
+  const all = report.categories.flatMap((r) => r.candidates);
+  const judges = judgeCount(all);
+  const criteria = criterionNames(all);
+
+  const header = [
+    "Category",
+    "Division",
+    "Rank",
+    "Candidate",
+    "Name",
+    "Hometown",
+    ...Array.from({ length: judges }, (_, j) => `Judge ${j + 1}`),
+    "Dropped Judges",
+    ...criteria,
+    "Aggregation",
+    "Total",
+    "Tie",
+  ];
+  const rows = report.categories.flatMap(({ category, aggregation, candidates }) =>
+    candidates.map((c) => [
+      category,
+      c.category ?? "",
+      c.rank ?? "",
+      c.name,
+      c.profile?.name ?? "",
+      c.profile?.hometown ?? "",
+      ...Array.from({ length: judges }, (_, j) => {
+        const score = c.scores[judgeIndex(c, j + 1)];
+        return score === undefined ? "" : formatScore(score);
+      }),
+      (c.droppedJudges ?? []).map((i) => judgeNumber(c, i)).join(" "),
+      ...criteria.map((name) => {
+        const criterion = c.criteria?.find((cr) => cr.name === name);
+        return criterion ? formatScore(criterion.average) : "";
+      }),
+      aggregation,
+      formatScore(c.totalPercentage),
+      describeTie(c),
+    ]),
+  );
+
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+}
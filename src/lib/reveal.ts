@@ -0,0 +1,32 @@
+import type { Candidate, RevealState } from "../types";
+
+// Whether the reveal is of this candidate: the same name in the same block
+export const isRevealOf = (
+  candidate: Pick<Candidate, "name" | "category">,
+  reveal: RevealState | null,
+): reveal is RevealState =>
+  !!reveal &&
+  reveal.candidate === candidate.name &&
+  reveal.category === candidate.category;
+
+// What the screens show of a candidate's scores: how many judge cards, and
+// whether the total is up. A reveal of this candidate goes step by step;
+// otherwise the judge score toggle shows every card at once.
+export function revealedParts(
+  candidate: Pick<Candidate, "name" | "category" | "scores">,
+  reveal: RevealState | null,
+  showJudgeScores: boolean,
+): { revealing: boolean; judges: number; total: boolean } {
+  if (isRevealOf(candidate, reveal)) {
+    return {
+      revealing: true,
+      judges: Math.min(reveal.step, candidate.scores.length),
+      total: reveal.step >= reveal.steps,
+    };
+  }
+  return {
+    revealing: false,
+    judges: showJudgeScores ? candidate.scores.length : 0,
+    total: true,
+  };
+}
@@ -0,0 +1,77 @@
+import type { CandidateProfile } from "../types";
+import type { ParsedCandidate } from "./scoreParser";
+import { candidateKey, candidateNumber } from "./overall";
+
+// Profiles by candidate key ("female#7"), or by "#7" when the roster has no division
+export type Roster = Map<string, CandidateProfile>;
+
+// Header cells the roster columns are recognised by. The generic "name" is
+// tried last, so "Photo File Name" counts as the photo column.
+const COLUMNS = {
+  number: /^(#|no\.?|number|candidate\s*(no\.?|number|#)?)$/i,
+  photo: /photo|picture|image/i,
+  bio: /bio|about|description/i,
+  division: /division|gender|sex/i,
+  hometown: /hometown|town|city|province|organi[sz]ation|represent|school/i,
+  name: /name/i,
+};
+
+type Column = keyof typeof COLUMNS;
+
+// Read a roster sheet: a header row naming the columns (at least a number and
+// a name), then one row per candidate. Rows without a number are skipped.
+export function parseRosterRows(rows: string[][]): Roster {
+  const roster: Roster = new Map();
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.map((cell) => String(cell ?? "").trim());
+    return (
+      cells.some((cell) => COLUMNS.number.test(cell)) &&
+      cells.some((cell) => COLUMNS.name.test(cell))
+    );
+  });
+  if (headerIndex === -1) return roster;
+
+  // Each column takes the first header that matches it
+  const columns: Partial<Record<Column, number>> = {};
+  rows[headerIndex].forEach((cell, col) => {
+    const header = String(cell ?? "").trim();
+    const column = (Object.keys(COLUMNS) as Column[]).find((c) =>
+      COLUMNS[c].test(header),
+    );
+    if (column && columns[column] === undefined) columns[column] = col;
+  });
+
+  const cell = (row: string[], column: Column) =>
+    columns[column] === undefined ? "" : String(row[columns[column]] ?? "").trim();
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const number = candidateNumber(cell(row, "number"));
+    const name = cell(row, "name");
+    if (number === null || !name) continue;
+    const division = cell(row, "division").toLowerCase();
+    const key = `${/^f/.test(division) ? "female" : /^m/.test(division) ? "male" : ""}#${number}`;
+    const profile: CandidateProfile = { number, name };
+    if (cell(row, "hometown")) profile.hometown = cell(row, "hometown");
+    if (cell(row, "bio")) profile.bio = cell(row, "bio");
+    if (cell(row, "photo")) profile.photo = cell(row, "photo");
+    roster.set(key, profile);
+  }
+  return roster;
+}
+
+// The roster entry for a candidate: same number and division, or same number
+// when the roster doesn't split by division
+export function findProfile(
+  candidate: ParsedCandidate,
+  roster: Roster,
+): CandidateProfile | undefined {
+  const key = candidateKey(candidate);
+  if (!key) return undefined;
+  return roster.get(key) ?? roster.get(`#${key.split("#")[1]}`);
+}
+
+// "#7 Maria Santos", or the sheet's header text without a roster entry
+export const displayName = (candidate: ParsedCandidate) =>
+  candidate.profile
+    ? `#${candidate.profile.number} ${candidate.profile.name}`
+    : candidate.name;
@@ -0,0 +1,73 @@
+import type { ParsedCandidate } from "./scoreParser";
+
+// One candidate whose scores changed since the previous poll
+export interface CandidateChange {
+  index: number;
+  candidate: ParsedCandidate;
+  // Indexes of the judge cells that changed (added, removed or edited)
+  changedJudges: number[];
+}
+
+// Payload of the SCORES_DIFF event
+export interface ScoresDiff {
+  category: string;
+  changes: CandidateChange[];
+}
+
+// Compare two parses of the same category. Returns the changed candidates, or
+// null when the list itself changed shape (candidates added, removed,
+// renamed, or given another roster profile or photo) and a full STATE_UPDATE
+// is needed instead of a diff.
+export function diffCandidates(
+  prev: ParsedCandidate[],
+  next: ParsedCandidate[],
+): CandidateChange[] | null {
+  if (prev.length !== next.length) return null;
+
+  const changes: CandidateChange[] = [];
+  for (let i = 0; i < next.length; i++) {
+    const a = prev[i];
+    const b = next[i];
+    if (
+      a.name !== b.name ||
+      a.category !== b.category ||
+      a.photo !== b.photo ||
+      JSON.stringify(a.profile) !== JSON.stringify(b.profile)
+    ) {
+      return null;
+    }
+
+    const changedJudges: number[] = [];
+    const judgeCount = Math.max(a.scores.length, b.scores.length);
+    for (let j = 0; j < judgeCount; j++) {
+      if (a.scores[j] !== b.scores[j]) changedJudges.push(j);
+    }
+    if (
+      changedJudges.length > 0 ||
+      a.totalPercentage !== b.totalPercentage ||
+      String(a.droppedJudges) !== String(b.droppedJudges) ||
+      String(a.judgeIds) !== String(b.judgeIds) ||
+      // Points moved between criteria can leave the total unchanged
+      JSON.stringify(a.criteria) !== JSON.stringify(b.criteria) ||
+      a.rank !== b.rank ||
+      JSON.stringify(a.tie) !== JSON.stringify(b.tie)
+    ) {
+      changes.push({ index: i, candidate: b, changedJudges });
+    }
+  }
+  return changes;
+}
+
+// Apply a diff to a client-side list, keeping client-only fields (e.g. photoUrl)
+export function applyCandidateChanges<T extends ParsedCandidate>(
+  candidates: T[],
+  changes: CandidateChange[],
+): T[] {
+  const next = [...candidates];
+  for (const change of changes) {
+    if (next[change.index]) {
+      next[change.index] = { ...next[change.index], ...change.candidate };
+    }
+  }
+  return next;
+}
@@ -0,0 +1,295 @@
+import type {
+  Candidate,
+  CategorySettings,
+  Criterion,
+  CriterionScore,
+} from "../types";
+import { aggregateScores } from "./aggregation";
+import { findProfile, type Roster } from "./roster";
+
+// A candidate as read from the sheet, before a photo has been resolved for it
+export type ParsedCandidate = Omit<Candidate, "photoUrl">;
+
+// Judge number of a candidate's i-th score
+export const judgeNumber = (c: Pick<Candidate, "judgeIds">, i: number) =>
+  c.judgeIds?.[i] ?? i + 1;
+
+// Position in `scores` of a judge's score, or -1 when that judge left it blank
+export const judgeIndex = (c: Pick<Candidate, "judgeIds">, judge: number) =>
+  c.judgeIds ? c.judgeIds.indexOf(judge) : judge - 1;
+
+// Highest judge number a set of candidates has scores from
+export const judgeCount = (candidates: Pick<Candidate, "scores" | "judgeIds">[]) =>
+  Math.max(
+    0,
+    ...candidates.map((c) => (c.scores.length ? judgeNumber(c, c.scores.length - 1) : 0)),
+  );
+
+// One judge's entry for a candidate: either a single score, or one score per criterion
+interface JudgeEntry {
+  score?: number;
+  criteria: Record<string, number>;
+}
+
+interface BlockCandidate {
+  index: number;
+  name: string;
+  // Criterion sub-columns under this candidate's header, if the block uses them
+  criterionColumns: { col: number; label: string }[];
+  judges: JudgeEntry[];
+}
+
+// Summary rows that sit under the judges and must not be read as criteria
+const SUMMARY_ROW = /^(TOTAL|AVERAGE|AVG|RANK|SCORE)/i;
+
+const parseScore = (cell: unknown): number | undefined => {
+  if (cell === undefined || cell === "") return undefined;
+  const val = parseFloat(String(cell));
+  return isNaN(val) ? undefined : val;
+};
+
+// Split a criterion label like "Poise (40%)" into its name and weight
+export function parseCriterionLabel(label: string): {
+  name: string;
+  weight?: number;
+} {
+  const match = label.match(/\(?\s*(\d+(?:\.\d+)?)\s*%\s*\)?/);
+  if (!match) return { name: label.trim() };
+  return {
+    name: label.replace(match[0], "").trim(),
+    weight: parseFloat(match[1]),
+  };
+}
+
+// Resolve the weights for the criteria found in a block. Configured weights win
+// over weights in the labels; if any criterion is still unweighted, every
+// criterion counts equally.
+function resolveCriteria(
+  labels: string[],
+  settings?: CategorySettings,
+): Criterion[] {
+  const criteria = labels.map((label) => {
+    const parsed = parseCriterionLabel(label);
+    const configured = settings?.criteria?.find(
+      (c) => c.name.toLowerCase() === parsed.name.toLowerCase(),
+    );
+    return { name: parsed.name, weight: configured?.weight ?? parsed.weight };
+  });
+  if (criteria.some((c) => c.weight === undefined || c.weight <= 0)) {
+    return criteria.map((c) => ({ name: c.name, weight: 100 / criteria.length }));
+  }
+  return criteria as Criterion[];
+}
+
+// Weighted total of one judge's criterion scores. Only criteria the judge has
+// scored count, so a half-entered row doesn't drag the total towards zero.
+function weightedTotal(
+  judge: JudgeEntry,
+  labels: string[],
+  criteria: Criterion[],
+): number | undefined {
+  let sum = 0;
+  let weights = 0;
+  labels.forEach((label, i) => {
+    const score = judge.criteria[label];
+    if (score !== undefined) {
+      sum += score * criteria[i].weight;
+      weights += criteria[i].weight;
+    }
+  });
+  return weights > 0 ? sum / weights : undefined;
+}
+
+// Parse the CANDIDATE/JUDGE block layout shared by every score source.
+// A sheet may hold several blocks; each one starts with a header row containing
+// "CANDIDATE" cells, is labelled by the nearest non-judge row above it, and is
+// followed by "JUDGE ..." rows holding one score per candidate column.
+//
+// Criteria can be given either as sub-columns (a row of criterion labels
+// right under the header, spanning each candidate's columns) or as sub-rows
+// (an empty "JUDGE n" row followed by one row per criterion).
+//
+// With a roster, each candidate gets the profile listed under its number.
+export function parseScoreRows(
+  rows: string[][],
+  settings?: CategorySettings,
+  roster?: Roster,
+): ParsedCandidate[] {
+  const parsedCandidates: ParsedCandidate[] = [];
+  let currentCategory = "General";
+
+  // Temporary storage for the current block being parsed
+  let currentBlockCandidates: BlockCandidate[] = [];
+  // Criterion labels in the order they appear in the current block
+  let criterionLabels: string[] = [];
+  // Row index of the current block's header row
+  let headerRowIndex = -1;
+  // The judge row that sub-row criteria belong to, if any
+  let openJudgeRow = false;
+
+  const addCriterionLabel = (label: string) => {
+    if (!criterionLabels.includes(label)) criterionLabels.push(label);
+  };
+
+  // Helper to finalize current block
+  const finalizeBlock = () => {
+    const criteria = resolveCriteria(criterionLabels, settings);
+    for (const c of currentBlockCandidates) {
+      const scores: number[] = [];
+      // Judges who entered a score, and their numbers, parallel to `scores`
+      const scoredJudges: JudgeEntry[] = [];
+      const judgeIds: number[] = [];
+      c.judges.forEach((judge, j) => {
+        const score =
+          criterionLabels.length > 0
+            ? weightedTotal(judge, criterionLabels, criteria)
+            : judge.score;
+        if (score !== undefined) {
+          scores.push(score);
+          scoredJudges.push(judge);
+          judgeIds.push(j + 1);
+        }
+      });
+      const { total, dropped } = aggregateScores(scores, settings);
+
+      const candidate: ParsedCandidate = {
+        name: c.name,
+        category: currentCategory,
+        scores,
+        judgeIds,
+        totalPercentage: total,
+        droppedJudges: dropped,
+      };
+      const profile = roster && findProfile(candidate, roster);
+      if (profile) candidate.profile = profile;
+      if (criterionLabels.length > 0) {
+        // Dropped judges don't count towards the criteria averages either
+        const counted = scoredJudges.filter((_, j) => !dropped.includes(j));
+        candidate.criteria = criterionLabels.map((label, i): CriterionScore => {
+          const judged = counted
+            .map((j) => j.criteria[label])
+            .filter((s): s is number => s !== undefined);
+          return {
+            ...criteria[i],
+            average:
+              judged.length > 0
+                ? judged.reduce((sum, s) => sum + s, 0) / judged.length
+                : 0,
+          };
+        });
+      }
+      parsedCandidates.push(candidate);
+    }
+    currentBlockCandidates = [];
+    criterionLabels = [];
+    openJudgeRow = false;
+  };
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const firstCell = (row[0] || "").toString().trim().toUpperCase();
+
+    // 1. Detect Header Row (Contains "CANDIDATE")
+    const isHeaderRow = row.some((cell) =>
+      (cell || "").toString().toUpperCase().includes("CANDIDATE"),
+    );
+
+    if (isHeaderRow) {
+      // If we were parsing a previous block, finalize it
+      finalizeBlock();
+      headerRowIndex = i;
+
+      // Attempt to find Category from previous row(s)
+      let foundCategory = false;
+      for (let j = i - 1; j >= 0; j--) {
+        const prevRowText = (rows[j][0] || "").toString().trim();
+        if (prevRowText) {
+          if (!prevRowText.toUpperCase().startsWith("JUDGE")) {
+            currentCategory = prevRowText;
+            foundCategory = true;
+          }
+          break;
+        }
+      }
+      if (!foundCategory) currentCategory = "General";
+
+      // Initialize candidates for this block
+      row.forEach((cell, colIndex) => {
+        if ((cell || "").toString().toUpperCase().includes("CANDIDATE")) {
+          currentBlockCandidates.push({
+            index: colIndex,
+            name: cell.toString().trim(), // e.g. "CANDIDATE 1"
+            criterionColumns: [],
+            judges: [],
+          });
+        }
+      });
+      continue;
+    }
+
+    if (currentBlockCandidates.length === 0) continue;
+
+    // 2. Detect criterion sub-columns: labels right under the header row
+    if (i === headerRowIndex + 1 && !firstCell.startsWith("JUDGE")) {
+      currentBlockCandidates.forEach((cand, k) => {
+        const end = currentBlockCandidates[k + 1]?.index ?? row.length;
+        for (let col = cand.index; col < end; col++) {
+          const label = (row[col] || "").toString().trim();
+          if (label && parseScore(label) === undefined) {
+            cand.criterionColumns.push({ col, label });
+            addCriterionLabel(label);
+          }
+        }
+      });
+      if (criterionLabels.length > 0) continue;
+    }
+
+    // 3. Detect Judge Row
+    if (firstCell.startsWith("JUDGE")) {
+      let hasScores = false;
+      currentBlockCandidates.forEach((cand) => {
+        const entry: JudgeEntry = { criteria: {} };
+        if (cand.criterionColumns.length > 0) {
+          for (const { col, label } of cand.criterionColumns) {
+            const val = parseScore(row[col]);
+            if (val !== undefined) {
+              entry.criteria[label] = val;
+              hasScores = true;
+            }
+          }
+        } else {
+          entry.score = parseScore(row[cand.index]);
+          if (entry.score !== undefined) hasScores = true;
+        }
+        cand.judges.push(entry);
+      });
+      // An empty judge row may head a group of criterion sub-rows
+      openJudgeRow = !hasScores;
+      continue;
+    }
+
+    // 4. Criterion sub-rows under an empty judge row
+    if (openJudgeRow && firstCell && !SUMMARY_ROW.test(firstCell)) {
+      const label = (row[0] || "").toString().trim();
+      let hasScores = false;
+      currentBlockCandidates.forEach((cand) => {
+        const val = parseScore(row[cand.index]);
+        if (val !== undefined) {
+          cand.judges[cand.judges.length - 1].criteria[label] = val;
+          hasScores = true;
+        }
+      });
+      if (hasScores) {
+        addCriterionLabel(label);
+        continue;
+      }
+    }
+    // Anything else (titles, totals) ends the current judge's criteria
+    openJudgeRow = false;
+  }
+
+  // Finalize the last block
+  finalizeBlock();
+
+  return parsedCandidates;
+}
@@ -0,0 +1,3 @@
+// The Socket.IO server, which also serves uploaded files, runs on port 3001 of
+// the machine the page was loaded from
+export const SERVER_URL = `http://${window.location.hostname}:3001`;
@@ -0,0 +1,26 @@
+import type { Theme, ThemeChanges } from "../types";
+
+// The look the app shipped with (see the @theme block in style.css)
+export const DEFAULT_THEME: Theme = {
+  eventTitle: "",
+  watermark: "LIVE SCOREBOARD",
+  colors: {
+    primary: "#ffd700",
+    secondary: "#4b0082",
+    gradientFrom: "#a8d8ff",
+    gradientTo: "#ffbfa0",
+  },
+  font: "",
+  logo: null,
+};
+
+// Font families bundled with the app (imported in main.tsx), so screens on a
+// venue network without internet still get them. The theme font is one of these.
+export const THEME_FONTS = ["Montserrat", "Playfair Display", "Cinzel", "Lato"];
+
+// Apply controller changes on top of a theme
+export const mergeTheme = (theme: Theme, changes: ThemeChanges): Theme => ({
+  ...theme,
+  ...changes,
+  colors: { ...theme.colors, ...changes.colors },
+});
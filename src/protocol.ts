@@ -0,0 +1,349 @@
+import { z } from "zod";
+import type {
+  ActionLogEntry,
+  Announcement,
+  ControllerAuthStatus,
+  ControllerLoginResult,
+  DisplayMode,
+  IdleItem,
+  IdlePlaylist,
+  JudgeOwnScores,
+  JudgeSubmission,
+  JudgeSubmitResult,
+  OverlayName,
+  OverlayVisibility,
+  Placement,
+  ProgramCue,
+  RevealState,
+  ScreenContent,
+  ScreenRoute,
+  SlideshowSettings,
+  SlideshowStatus,
+  Theme,
+  ThemeChanges,
+  Transition,
+} from "./types";
+import type { ParsedCandidate } from "./lib/scoreParser";
+import type { ScoresDiff } from "./lib/scoreDiff";
+import type { TabulationReport } from "./lib/report";
+import { THEME_FONTS } from "./lib/theme";
+
+// Socket.IO protocol shared by the server and the client. The server checks
+// every client-to-server payload against `clientEventSchemas` before it
+// touches any state, and answers a malformed one with PROTOCOL_ERROR.
+
+export const SCREEN_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/i;
+
+const screenName = z.string().regex(SCREEN_NAME_PATTERN);
+
+const displayMode = z.enum([
+  "spotlight",
+  "leaderboard",
+  "announcement",
+]) satisfies z.ZodType<DisplayMode>;
+
+const screenContent = z.enum([
+  "main",
+  "spotlight",
+  "leaderboard",
+  "announcement",
+  "idle",
+]) satisfies z.ZodType<ScreenContent>;
+
+// Changes to the cued preview; anything left out stays as cued
+const cueChanges = z
+  .object({
+    category: z.string(),
+    index: z.number().int().min(0),
+    displayMode,
+    isIdle: z.boolean(),
+  })
+  .partial() satisfies z.ZodType<Partial<ProgramCue>>;
+
+const slideshowSettings = z.object({
+  seconds: z.number().min(1).max(3600),
+  loop: z.boolean(),
+  revealJudgesAfter: z.number().min(0).nullable(),
+}) satisfies z.ZodType<SlideshowSettings>;
+
+const overlayName = z.enum([
+  "lower-third",
+  "score-bug",
+  "leaderboard",
+]) satisfies z.ZodType<OverlayName>;
+
+const transition = z.enum(["cut", "fade"]) satisfies z.ZodType<Transition>;
+
+// File contents arrive as an ArrayBuffer from the browser and as a Buffer
+// (a Uint8Array) on the server
+const binary = z.custom<ArrayBuffer | Uint8Array>(
+  (value) => value instanceof ArrayBuffer || value instanceof Uint8Array,
+  "Expected binary file data",
+);
+
+const judgeSubmission = z.object({
+  judgeId: z.number().int().positive(),
+  category: z.string(),
+  candidate: z.string(),
+  score: z.number().optional(),
+  criteria: z.record(z.string(), z.number()).optional(),
+}) satisfies z.ZodType<JudgeSubmission>;
+
+// A tablet joins as one judge, with that judge's PIN when the show needs one
+const judgeLogin = z.object({
+  judgeId: z.number().int().positive(),
+  pin: z.string().optional(),
+});
+
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i);
+
+const themeChanges = z.object({
+  eventTitle: z.string().max(120).optional(),
+  watermark: z.string().max(120).optional(),
+  // A bundled family or "" for the default, so screens never depend on a
+  // font they can't load
+  font: z
+    .string()
+    .refine((font) => font === "" || THEME_FONTS.includes(font), "Unknown font.")
+    .optional(),
+  colors: z
+    .object({
+      primary: hexColor.optional(),
+      secondary: hexColor.optional(),
+      gradientFrom: hexColor.optional(),
+      gradientTo: hexColor.optional(),
+    })
+    .optional(),
+}) satisfies z.ZodType<ThemeChanges>;
+
+const imageUpload = z.object({
+  name: z.string().regex(/\.(png|jpe?g|gif|webp|svg)$/i, "Expected an image file"),
+  data: binary,
+});
+
+// Images can only be the ones uploaded for the playlist
+const idleItem = z.intersection(
+  z.object({
+    id: z.string().min(1).max(40),
+    seconds: z.number().min(1).max(3600),
+  }),
+  z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("image"),
+      image: z.string().regex(/^\/idle-assets\/[\w.-]+$/),
+      caption: z.string().max(200).optional(),
+    }),
+    z.object({
+      type: z.literal("text"),
+      title: z.string().max(120),
+      text: z.string().max(500).optional(),
+    }),
+    z.object({
+      type: z.literal("countdown"),
+      title: z.string().max(120),
+      until: z.iso.datetime(),
+    }),
+    z.object({
+      type: z.literal("up-next"),
+      category: z.string().optional(),
+      text: z.string().max(500).optional(),
+    }),
+  ]),
+) satisfies z.ZodType<IdleItem>;
+
+const photoUpload = z.object({
+  candidate: z.string(),
+  division: z.string().optional(),
+  // Only for this category; null for every category
+  category: z.string().nullable(),
+  // Cropped JPEG, or null to remove the photo
+  data: binary.nullable(),
+});
+
+// Events without a payload must not carry one
+const none = z.undefined();
+
+export const clientEventSchemas = {
+  // Controller events
+  SET_INDEX: z.object({
+    index: z.number().int().min(0),
+    showJudgeScores: z.boolean().optional(),
+  }),
+  SET_IDLE: z.boolean(),
+  SET_CATEGORY: z.object({ category: z.string() }),
+  SET_SHOW_JUDGE_SCORES: z.boolean(),
+  START_REVEAL: none,
+  REVEAL_STEP: z.union([z.literal(1), z.literal(-1)]),
+  END_REVEAL: none,
+  SET_DISPLAY_MODE: displayMode,
+  // null drops the cue, so the preview shows the program again
+  CUE: cueChanges.nullable(),
+  TAKE: transition,
+  JOIN_CONTROLLERS: none,
+  SET_OVERLAY: z.object({ overlay: overlayName, visible: z.boolean() }),
+  SET_SCREEN_ROUTE: z.object({ screen: screenName, content: screenContent }),
+  START_ANNOUNCEMENT: z.object({
+    category: z.string().optional(),
+    topN: z.number().int().positive(),
+    // Required when the category's candidates are split into divisions
+    division: z.string().optional(),
+  }),
+  ANNOUNCEMENT_STEP: z.union([z.literal(1), z.literal(-1)]),
+  END_ANNOUNCEMENT: none,
+  START_SLIDESHOW: slideshowSettings,
+  SET_SLIDESHOW_PAUSED: z.boolean(),
+  STOP_SLIDESHOW: none,
+  REFRESH_SCORES: none,
+  LOAD_SCORE_FILES: z
+    .array(z.object({ name: z.string().min(1), data: binary }))
+    .min(1),
+  USE_JUDGE_TABLETS: none,
+  SET_CANDIDATE_LOCK: z.object({ candidate: z.string(), locked: z.boolean() }),
+  RESET_SCORE_SOURCE: none,
+  UNDO: none,
+  NEW_SHOW: none,
+  GET_REPORT: none,
+  SET_THEME: themeChanges,
+  SET_LOGO: imageUpload.nullable(),
+  SET_PHOTO: photoUpload,
+  SET_IDLE_PLAYLIST: z.array(idleItem).max(100),
+  ADD_IDLE_IMAGE: imageUpload,
+
+  // Events any client may send
+  CONTROLLER_LOGIN: z.string(),
+  CONTROLLER_LOGOUT: none,
+  JOIN_SCREEN: screenName,
+  JOIN_JUDGE: judgeLogin,
+  JUDGE_SUBMIT: judgeSubmission,
+};
+
+export type ClientEventName = keyof typeof clientEventSchemas;
+export type ClientPayload<E extends ClientEventName> = z.infer<
+  (typeof clientEventSchemas)[E]
+>;
+
+// Check an event's payload against its schema. Used for socket events and for
+// the HTTP control API, so both reject bad input with the same message.
+export function parseClientPayload<E extends ClientEventName>(
+  event: E,
+  payload: unknown,
+): { ok: true; data: ClientPayload<E> } | { ok: false; error: string } {
+  const parsed = clientEventSchemas[event].safeParse(payload);
+  if (parsed.success) return { ok: true, data: parsed.data as ClientPayload<E> };
+  const problems = parsed.error.issues.map((issue) =>
+    issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+  );
+  return { ok: false, error: `Invalid payload (${problems.join("; ")})` };
+}
+
+export interface ClientToServerEvents {
+  SET_INDEX: (payload: ClientPayload<"SET_INDEX">) => void;
+  SET_IDLE: (idle: boolean) => void;
+  SET_CATEGORY: (payload: ClientPayload<"SET_CATEGORY">) => void;
+  SET_SHOW_JUDGE_SCORES: (show: boolean) => void;
+  START_REVEAL: () => void;
+  REVEAL_STEP: (step: 1 | -1) => void;
+  END_REVEAL: () => void;
+  SET_DISPLAY_MODE: (mode: DisplayMode) => void;
+  CUE: (changes: Partial<ProgramCue> | null) => void;
+  TAKE: (transition: Transition) => void;
+  JOIN_CONTROLLERS: () => void;
+  SET_OVERLAY: (payload: ClientPayload<"SET_OVERLAY">) => void;
+  SET_SCREEN_ROUTE: (payload: ClientPayload<"SET_SCREEN_ROUTE">) => void;
+  START_ANNOUNCEMENT: (payload: ClientPayload<"START_ANNOUNCEMENT">) => void;
+  ANNOUNCEMENT_STEP: (step: 1 | -1) => void;
+  END_ANNOUNCEMENT: () => void;
+  START_SLIDESHOW: (settings: SlideshowSettings) => void;
+  SET_SLIDESHOW_PAUSED: (paused: boolean) => void;
+  STOP_SLIDESHOW: () => void;
+  REFRESH_SCORES: () => void;
+  LOAD_SCORE_FILES: (files: ClientPayload<"LOAD_SCORE_FILES">) => void;
+  USE_JUDGE_TABLETS: () => void;
+  SET_CANDIDATE_LOCK: (payload: ClientPayload<"SET_CANDIDATE_LOCK">) => void;
+  RESET_SCORE_SOURCE: () => void;
+  UNDO: () => void;
+  NEW_SHOW: () => void;
+  SET_THEME: (changes: ThemeChanges) => void;
+  SET_LOGO: (logo: ClientPayload<"SET_LOGO">) => void;
+  SET_PHOTO: (photo: ClientPayload<"SET_PHOTO">) => void;
+  SET_IDLE_PLAYLIST: (items: IdleItem[]) => void;
+  ADD_IDLE_IMAGE: (image: ClientPayload<"ADD_IDLE_IMAGE">) => void;
+  GET_REPORT: (ack: (result: { ok: boolean; error?: string }) => void) => void;
+  CONTROLLER_LOGIN: (
+    pin: string,
+    ack: (result: ControllerLoginResult) => void,
+  ) => void;
+  CONTROLLER_LOGOUT: () => void;
+  JOIN_SCREEN: (screen: string) => void;
+  JOIN_JUDGE: (
+    login: ClientPayload<"JOIN_JUDGE">,
+    ack: (result: ControllerLoginResult) => void,
+  ) => void;
+  JUDGE_SUBMIT: (
+    submission: JudgeSubmission,
+    ack: (result: JudgeSubmitResult) => void,
+  ) => void;
+}
+
+// Full show state, sent on connect and after every change
+export interface ShowState {
+  currentIndex: number;
+  candidates: ParsedCandidate[];
+  isIdle: boolean;
+  category: string;
+  showJudgeScores: boolean;
+  displayMode: DisplayMode;
+  categories: string[];
+  sourceLabel: string | null;
+  scoreError: string | null;
+  overallCategory: string | null;
+  judgeTablets: boolean;
+  // Candidates in the current category closed for tablet scoring
+  lockedCandidates: string[];
+  announcement: Announcement<ParsedCandidate> | null;
+  overlays: OverlayVisibility;
+  // Step-by-step score reveal of the candidate on screen, if one is running
+  reveal: RevealState | null;
+  // Auto-advance running on the main screen, if any
+  slideshow: SlideshowStatus | null;
+  // Counts the TAKEs that faded; screens fade in when it goes up
+  fades: number;
+}
+
+// The controllers' preview bus: what TAKE will put on air
+export interface CuedPreview extends ProgramCue {
+  // The cued category's candidates, or null when it is the one on air
+  candidates: ParsedCandidate[] | null;
+}
+
+// A running announcement with its full order, as only controllers see it
+export interface AnnouncementOrder {
+  category: string;
+  division?: string;
+  placements: Placement<ParsedCandidate>[]; // Reveal order, lowest place first
+  revealed: number;
+  maxNumber: number;
+}
+
+// Reply to a malformed or unauthorized event
+export interface ProtocolError {
+  event: string;
+  message: string;
+}
+
+export interface ServerToClientEvents {
+  STATE_UPDATE: (state: ShowState) => void;
+  SCORES_DIFF: (diff: ScoresDiff) => void;
+  ANNOUNCEMENT_PREVIEW: (order: AnnouncementOrder | null) => void;
+  // null when nothing is cued and the preview shows the program
+  PREVIEW: (preview: CuedPreview | null) => void;
+  JUDGE_SCORES: (scores: JudgeOwnScores) => void;
+  AUTH_STATUS: (status: ControllerAuthStatus) => void;
+  ACTION_HISTORY: (entries: ActionLogEntry[]) => void;
+  SCREEN_STATE: (state: { screen: string; content: ScreenContent }) => void;
+  SCREENS: (screens: ScreenRoute[]) => void;
+  PROTOCOL_ERROR: (error: ProtocolError) => void;
+  REPORT: (report: TabulationReport) => void;
+  THEME: (theme: Theme) => void;
+  IDLE_PLAYLIST: (playlist: IdlePlaylist) => void;
+}
@@ -0,0 +1,45 @@
+import type { ScoreSource } from "../types";
+
+const SHEETS_API = "https://sheets.googleapis.com/v4/spreadsheets";
+
+// Score source backed by the Google Sheets v4 API; one sheet per category
+export function createGoogleSheetsSource(
+  sheetId: string,
+  apiKey: string,
+): ScoreSource {
+  return {
+    label: "Google Sheets",
+
+    // Fetch all available sheet names (categories) from the spreadsheet
+    async listCategories() {
+      const url = `${SHEETS_API}/${sheetId}?key=${apiKey}&fields=sheets.properties.title`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      }
+      const data = (await response.json()) as {
+        sheets?: { properties: { title: string } }[];
+      };
+      return data.sheets?.map((sheet) => sheet.properties.title) || [];
+    },
+
+    async fetchRows(category: string) {
+      // Encode sheet name for URL - handle spaces and special characters
+      // Sheet names with spaces need to be wrapped in single quotes
+      const encodedSheetName =
+        category.includes(" ") || category.includes("'")
+          ? `'${category.replace(/'/g, "''")}'`
+          : category;
+      // Fetch a larger range to accommodate dynamic sections
+      const range = encodeURIComponent(`${encodedSheetName}!A1:Z100`);
+      const url = `${SHEETS_API}/${sheetId}/values/${range}?key=${apiKey}`;
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      }
+      const data = (await response.json()) as { values?: string[][] };
+      return data.values || [];
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { read, utils, type WorkBook } from "xlsx";
+import type { ScoreSource } from "../types";
+
+// A spreadsheet file's name and contents, as read from disk or a file picker
+export interface ScoreFile {
+  name: string;
+  data: ArrayBuffer;
+}
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, "");
+
+// Score source backed by local CSV/XLSX files, so a show can run offline.
+// Accepts either one workbook (each sheet is a category) or several files
+// (each file is a category, named after the file). Files are parsed once up
+// front; reload the source to pick up edits. Two sheets that would end up
+// with the same category name (e.g. "Sheet1" in two workbooks) are an error
+// rather than one silently replacing the other.
+export function createLocalFileSource(files: ScoreFile[]): ScoreSource {
+  if (files.length === 0) {
+    throw new Error("No score files selected.");
+  }
+
+  const sheets = new Map<string, string[][]>();
+  for (const file of files) {
+    const workbook: WorkBook = read(file.data, { type: "array" });
+    const isCsv = /\.csv$/i.test(file.name);
+    workbook.SheetNames.forEach((sheetName) => {
+      // A CSV always has exactly one sheet, so name it after the file instead
+      const category =
+        isCsv || (files.length > 1 && workbook.SheetNames.length === 1)
+          ? stripExtension(file.name)
+          : sheetName;
+      const rows = utils.sheet_to_json<string[]>(workbook.Sheets[sheetName], {
+        header: 1,
+        raw: false,
+        defval: "",
+      });
+      if (sheets.has(category)) {
+        throw new Error(
+          `More than one sheet is named "${category}" (found again in ${file.name}). Rename the sheets or files so each category name is unique.`,
+        );
+      }
+      sheets.set(category, rows);
+    });
+  }
+
+  return {
+    label:
+      files.length === 1 ? files[0].name : `${files.length} local files`,
+
+    async listCategories() {
+      return Array.from(sheets.keys());
+    },
+
+    async fetchRows(category: string) {
+      const rows = sheets.get(category);
+      if (!rows) {
+        throw new Error(`Category "${category}" not found in local files.`);
+      }
+      return rows;
+    },
+  };
+}
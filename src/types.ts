@@ -1,7 +1,318 @@
 export interface Candidate {
     name: string;
     category?: string;
+    // Where screens load the photo from (resolved on the client)
     photoUrl: string;
+    // Path of the candidate's photo in the server's photo store, if it has one
+    photo?: string;
+    // One score per judge; the weighted criteria total when the category uses criteria
     scores: number[];
+    // Judge number (from 1) of each entry in `scores`, which leaves out judges
+    // who left the candidate blank. Absent in shows saved before it existed.
+    judgeIds?: number[];
     totalPercentage: number;
+    // Per-criterion breakdown, only present when the sheet has criteria
+    criteria?: CriterionScore[];
+    // Indexes into `scores` left out of the total by the category's aggregation
+    droppedJudges?: number[];
+    // Place in the category after tie-breaks; candidates still tied share a rank
+    rank?: number;
+    // Real name and details from the roster, when it lists this candidate
+    profile?: CandidateProfile;
+    // Set when the total ties with other candidates at the category's precision
+    // (null rather than absent, so a score diff can clear it)
+    tie?: TieInfo | null;
+}
+
+// A candidate as listed in the roster, matched by number (and Male/Female division)
+export interface CandidateProfile {
+    number: number;
+    name: string;
+    // Hometown or the organization they represent
+    hometown?: string;
+    bio?: string;
+    // Photo URL, or a path under public/
+    photo?: string;
+}
+
+// A tie on the rounded total, as seen from each of the tied candidates
+export interface TieInfo {
+    // The other candidates on the same total, in the same block (division)
+    with: { name: string; category?: string }[];
+    // The rules that separated them, in the order applied; empty when none did
+    rules: string[];
+    // False when some of them still share a rank after every rule
+    resolved: boolean;
+}
+
+// What the main viewer screen (/view) shows when not idle
+export type DisplayMode = "spotlight" | "leaderboard" | "announcement";
+
+// What a named screen (/view/:screen) shows: whatever the main screen shows,
+// one display mode regardless of the main screen, or the idle screen
+export type ScreenContent = "main" | DisplayMode | "idle";
+
+// What the main screen puts on air: the program, or a cue waiting in the
+// controller's preview for TAKE
+export interface ProgramCue {
+    category: string;
+    index: number; // Candidate in the category
+    displayMode: DisplayMode;
+    isIdle: boolean;
+}
+
+// How TAKE switches the main screen to the cued preview
+export type Transition = "cut" | "fade";
+
+// Hands-free stepping through the candidates on the main screen
+export interface SlideshowSettings {
+    seconds: number; // How long each candidate stays on screen
+    loop: boolean; // Start over after the last candidate instead of stopping
+    // Seconds into each slide when the judge scores appear; null keeps them hidden
+    revealJudgesAfter: number | null;
+}
+
+// A running slideshow as every screen sees it
+export interface SlideshowStatus extends SlideshowSettings {
+    paused: boolean;
+}
+
+// Step-by-step reveal of the candidate on the main screen: the name alone
+// (step 0), then one more judge card per step, then the total (the last step)
+export interface RevealState {
+    candidate: string; // Name of the candidate being revealed
+    category?: string; // And their block, since names repeat across blocks
+    step: number;
+    steps: number; // One per judge, plus the total
+}
+
+// Transparent broadcast overlays (/overlay/:name) for OBS/vMix browser sources
+export type OverlayName = "lower-third" | "score-bug" | "leaderboard";
+
+// Which overlays are showing; each has its own show/hide in the controller
+export type OverlayVisibility = Record<OverlayName, boolean>;
+
+// A named screen as the controller's routing matrix sees it
+export interface ScreenRoute {
+    name: string;
+    content: ScreenContent;
+    viewers: number; // Connected displays showing this screen
+}
+
+// One place in a winner announcement, e.g. place 2 = "1st Runner-Up"
+export interface Placement<C = Candidate> {
+    place: number;
+    title: string;
+    candidate: C;
+}
+
+// A running winner announcement as viewers see it: only the revealed places,
+// in reveal order (lowest place first)
+export interface Announcement<C = Candidate> {
+    category: string;
+    division?: string; // Block announced, when the category has several
+    total: number;
+    // Highest candidate number in the category, for the suspense animation
+    maxNumber: number;
+    revealed: Placement<C>[];
+}
+
+// A scoring criterion and its weight in percent (e.g. Poise, 40)
+export interface Criterion {
+    name: string;
+    weight: number;
+}
+
+// A criterion's average across all judges for one candidate
+export interface CriterionScore extends Criterion {
+    average: number;
+}
+
+// How judge scores combine into a candidate's total:
+// - "mean": average of every judge
+// - "drop-extremes": drop the highest and the lowest judge, average the rest
+// - "median": middle judge (average of the middle two for an even count)
+// - "trimmed-mean": drop `trimPercent` of the judges from each end, average the rest
+export type AggregationMethod = "mean" | "drop-extremes" | "median" | "trimmed-mean";
+
+// Scoring settings for one category (sheet), keyed by category name in ShowConfig
+export interface CategorySettings {
+    // Criterion weights; these override any "(40%)" weights in the sheet labels
+    criteria?: Criterion[];
+    // Defaults to "mean"
+    aggregation?: AggregationMethod;
+    // Share of judges dropped from each end for "trimmed-mean" (default 20)
+    trimPercent?: number;
+    // Decimal places totals are compared at when looking for ties (default 2)
+    tiePrecision?: number;
+    // Rules applied in order to separate tied candidates
+    tieBreak?: TieBreakRule[];
+}
+
+// A rule that orders candidates tied on total:
+// - "criterion": higher average in the named criterion (or sheet, for the overall category)
+// - "judge": higher score from one judge, e.g. the chief judge (1-based)
+// - "first-place-votes": more judges giving them the highest score among the tied candidates
+export type TieBreakRule =
+    | { type: "criterion"; criterion: string }
+    | { type: "judge"; judge: number }
+    | { type: "first-place-votes" };
+
+// A computed category that merges candidates across several sheets
+export interface OverallSettings {
+    // Name shown in the category list (defaults to "Overall")
+    name?: string;
+    // Weight in percent for each sheet that counts, e.g. { "Swimsuit": 30 }
+    weights: Record<string, number>;
+}
+
+// Setup for scoring on judge tablets (/judge/:id) instead of a sheet
+export interface JudgingSettings {
+    // Number of judges; tablets are /judge/1 to /judge/N
+    judges: number;
+    // Number of candidates, named "CANDIDATE 1" to "CANDIDATE N"
+    candidates: number;
+    // Categories scored on the tablets, in show order
+    categories: string[];
+    // PIN of each judge's tablet, judge 1 first; a judge without one can't log in
+    pins?: string[];
+}
+
+// Show-wide configuration loaded by the server (see show.config.example.json)
+export interface ShowConfig {
+    categories?: Record<string, CategorySettings>;
+    overall?: OverallSettings;
+    judging?: JudgingSettings;
+    // Named screens listed in the routing matrix even before they connect
+    screens?: string[];
+    roster?: RosterSettings;
+}
+
+// Where the candidate roster is read from: a sheet in the score source (left
+// out of the category list), or a CSV/XLSX file relative to the config file
+export interface RosterSettings {
+    sheet?: string;
+    file?: string;
+}
+
+// Scores sent from a judge tablet for one candidate: either a single score,
+// or one score per criterion of the category
+export interface JudgeSubmission {
+    judgeId: number;
+    category: string;
+    candidate: string;
+    score?: number;
+    criteria?: Record<string, number>;
+}
+
+// What one judge entered for one candidate
+export type JudgeEntry = Pick<JudgeSubmission, "score" | "criteria">;
+
+// One judge tablet's own entries in the current category, by candidate name
+export interface JudgeOwnScores {
+    category: string;
+    scores: Record<string, JudgeEntry>;
+}
+
+// Server reply to a judge tablet submission
+export interface JudgeSubmitResult {
+    ok: boolean;
+    error?: string;
+}
+
+// Whether this client may control the show, and whether a PIN is needed for it
+export interface ControllerAuthStatus {
+    controller: boolean;
+    pinRequired: boolean;
+    wrongPin?: boolean; // The PIN sent in the handshake was refused as wrong
+}
+
+// This client's link to the server
+export interface Connection {
+    status: "connecting" | "connected" | "offline";
+    since: number; // When the status last changed (ms since epoch)
+}
+
+// Server reply to a controller PIN login
+export interface ControllerLoginResult {
+    ok: boolean;
+    error?: string;
+    wrongPin?: boolean; // The PIN itself was refused, not a lockout or setup problem
+}
+
+// The part of the show position that Undo restores
+export interface ControlPosition {
+    currentIndex: number;
+    category: string;
+    isIdle: boolean;
+    showJudgeScores: boolean;
+}
+
+// One accepted control event in the server's action log
+export interface ActionLogEntry {
+    id: number;
+    time: string; // ISO timestamp
+    event: string;
+    by: string; // Address of the controller that sent it
+    payload: unknown;
+    before: ControlPosition;
+    after: ControlPosition;
+    undoes?: number; // For UNDO entries: id of the entry that was undone
+}
+
+// Colors of the event theme, as "#rrggbb"
+export interface ThemeColors {
+    primary: string; // Highlights, titles, the leader (pageant-gold)
+    secondary: string; // Buttons and accents (pageant-purple)
+    gradientFrom: string; // Background gradient (ethereal)
+    gradientTo: string; // (ethereal-complement)
+}
+
+// Event branding, edited from the controller and applied live on every screen
+export interface Theme {
+    // Shown on the idle screen and as the page title; empty for none
+    eventTitle: string;
+    // Small text in the corner of the spotlight
+    watermark: string;
+    colors: ThemeColors;
+    // CSS font family for the text (scores keep the monospace font); empty for the default
+    font: string;
+    // Path of the uploaded logo on the server, or null for the bundled logo
+    logo: string | null;
+}
+
+// Theme fields the controller can change in one SET_THEME
+export type ThemeChanges = Partial<Omit<Theme, "colors" | "logo">> & {
+    colors?: Partial<ThemeColors>;
+};
+
+// One slide of the idle screen playlist, shown for `seconds`:
+// - "image": an uploaded sponsor slide (a path on the server), with an optional caption
+// - "text": an announcement, e.g. "Intermission" / "Back in 10 minutes"
+// - "countdown": a title over the time left until `until` (ISO timestamp)
+// - "up-next": the coming category, or the one after the category on air when unset
+export type IdleItem = { id: string; seconds: number } & (
+    | { type: "image"; image: string; caption?: string }
+    | { type: "text"; title: string; text?: string }
+    | { type: "countdown"; title: string; until: string }
+    | { type: "up-next"; category?: string; text?: string }
+);
+
+export type IdleItemType = IdleItem["type"];
+
+// The idle screen playlist and the slide every idle screen is showing
+export interface IdlePlaylist {
+    items: IdleItem[];
+    current: number;
+}
+
+// A backend that score sheets can be read from. Every source yields raw rows in
+// the same CANDIDATE/JUDGE layout, so parsing is shared between them.
+export interface ScoreSource {
+    // Short label shown in the controller, e.g. "Google Sheets" or "scores.xlsx"
+    label: string;
+    // List the available categories (sheet or file names)
+    listCategories(): Promise<string[]>;
+    // Fetch the raw cell values of one category as rows of strings
+    fetchRows(category: string): Promise<string[][]>;
 }